@@ -9,6 +9,9 @@
  */
 
 import type { ItemAcquisition } from '@/types/progression'
+import type { DamageReductionScope } from '@/types/toughness'
+import type { ParagonCategory, ParagonStat, ParagonStatInfo } from '@/types/paragon'
+import type { CubePowerInfo } from '@/types/cube'
 
 /**
  * Passive skills by class - used to validate AI doesn't recommend passives as active skills
@@ -67,27 +70,12 @@ export const CLASS_PASSIVES: Record<string, string[]> = {
 }
 
 /**
- * Ring and jewelry sets that consume multiple slots
- * Used to detect impossible slot conflicts in recommendations
+ * Follower relics (token slot) that make the follower immortal
  */
-export interface SetSlotInfo {
-  slots: string[]
-  items: string[]
-}
-
-export const JEWELRY_SETS: Record<string, SetSlotInfo> = {
-  'Focus and Restraint': {
-    slots: ['leftFinger', 'rightFinger'],
-    items: ['Focus', 'Restraint']
-  },
-  'Endless Walk': {
-    slots: ['neck', 'leftFinger'],
-    items: ['The Traveler\'s Pledge', 'The Compass Rose']
-  },
-  'Bastions of Will': {
-    slots: ['leftFinger', 'rightFinger'],
-    items: ['Focus', 'Restraint']
-  }
+export const FOLLOWER_RELICS: Record<string, string> = {
+  templar: 'Enchanting Favor',
+  scoundrel: 'Skeleton Key',
+  enchantress: 'Smoking Thurible'
 }
 
 /**
@@ -119,9 +107,95 @@ export const LEGENDARY_EFFECTS: Record<string, string> = {
   'The Traveler\'s Pledge': 'While moving, you take 30% reduced damage. While standing still, you deal 100% increased damage',
   'Haunted Visions': 'Simulacrum now drains 1% of your maximum life every second. Simulacrum can no longer be killed',
 
+  // Follower gear
+  'Oculus Ring': 'Chance to create an area of focused power on killing a monster. Damage is increased by 35-40% while standing in the area',
+  'Enchanting Favor': 'Templar relic. Your Templar cannot die',
+  'Skeleton Key': 'Scoundrel relic. Your Scoundrel cannot die',
+  'Smoking Thurible': 'Enchantress relic. Your Enchantress cannot die',
+
   // Armor
   'Aquila Cuirass': 'While above 90-95% primary resource, all damage taken is reduced by 50%',
   'Razeth\'s Volition': 'Skeletal Mage gains the effect of the Gift of Death rune',
+  'Stone Gauntlets': 'Increase your Armor by 40-50%, but reduce your Attack Speed and movement speed',
+
+  // Defensive rings
+  'Unity': 'All damage taken is split between wearers of this item. With a follower wearing Unity and an immortality relic, damage taken is reduced by 50%',
+
+  // Generic weapons
+  'The Furnace': 'Increases damage against elites by 40-50%',
+
+  // Barbarian weapons
+  'Blade of the Warlord': 'Bash consumes up to 40 Fury to deal up to 400-500% increased damage',
+  'The Gavel of Judgment': 'Hammer of the Ancients returns 20-25 Fury if it hits 3 or fewer enemies',
+  'Standoff': 'Furious Charge deals damage equal to 500-600% of your bonus movement speed',
+
+  // Crusader weapons
+  'Johanna\'s Argument': 'Increase the attack speed of Blessed Hammer by 100%',
+  'Darklight': 'Fist of the Heavens has a 60% chance to also be cast at your location',
+
+  // Demon Hunter weapons
+  'Dawn': 'Reduce the cooldown of Vengeance by 50-65%',
+  'Yang\'s Recurve': 'Multishot attacks 50% faster and deals 150-200% increased damage',
+  'Wojahnni Assaulter': 'Rapid Fire deals 30-40% increased damage for every half second that you channel. Stacks up to 4 times',
+
+  // Monk weapons
+  'Flying Dragon': 'Chance on hit to double your attack speed for 7 seconds',
+  'Lion\'s Claw': 'Seven-Sided Strike performs an additional 7 strikes',
+  'Vengeful Wind': 'Increases the maximum stack count of Sweeping Wind by 3',
+
+  // Witch Doctor weapons
+  'Starmetal Kukri': 'Reduce the cooldown of Fetish Army and Big Bad Voodoo by 1 second each time your fetishes deal damage',
+  'Deadly Rebirth': 'Grasp of the Dead gains the effect of the Rain of Corpses rune',
+  'Wormwood': 'Locust Swarm is automatically cast on enemies around you every second',
+
+  // Wizard weapons
+  'Unstable Scepter': 'Arcane Orb\'s explosion triggers an additional time',
+  'The Twisted Sword': 'Energy Twister damage is increased by 125-150% for each Energy Twister you have out. Max 5 stacks',
+  'Deathwish': 'While channeling Arcane Torrent, Disintegrate, or Ray of Frost, all damage is increased by 35-40%',
+
+  // Generic armor
+  'Leoric\'s Crown': 'Increase the effect of any gem socketed into your helm by 75-100%',
+  'Ancient Parthan Defenders': 'Each stunned enemy within 25 yards reduces your damage taken by 9-12%',
+  'Strongarm Bracers': 'Enemies hit by knockbacks suffer 20-30% increased damage for 5 seconds',
+  'Reaper\'s Wraps': 'Health globes restore 25-30% of your primary resource',
+  'Harrington Waistguard': 'Opening a chest grants 100-135% increased damage for 10 seconds',
+  'Hunter\'s Wrath': 'Your primary skills attack 30% faster and deal 45-60% increased damage',
+  'Goldwrap': 'On gold pickup: Gain armor for 5 seconds equal to the amount picked up',
+  'Gladiator Gauntlets': 'After earning a massacre bonus, gold rains from the sky',
+  'Nemesis Bracers': 'Shrines and Pylons will spawn an enemy champion',
+
+  // Barbarian armor
+  'Bracers of the First Men': 'Hammer of the Ancients attacks 50% faster and deals 150-200% increased damage',
+  'Pride of Cassius': 'Increases the duration of Ignore Pain by 4-6 seconds',
+  'Lut Socks': 'Leap can be cast up to three times within 2 seconds before the cooldown begins',
+  'Chilanik\'s Chain': 'Using War Cry increases the movement speed for you and all allies affected by 30-40% for 10 seconds',
+
+  // Monk armor
+  'Spirit Guards': 'Your Spirit Generators reduce your damage taken by 30-40% for 3 seconds',
+  'The Crudest Boots': 'Mystic Ally summons two Mystic Allies that fight by your side',
+
+  // Witch Doctor armor
+  'Mask of Jeram': 'Pets deal 75-100% increased damage',
+
+  // Wizard armor
+  'The Swami': 'The bonuses gained from Archon stacks now last 15-20 seconds after Archon expires',
+
+  // Necromancer armor
+  'Steuart\'s Greaves': 'You gain 40-60% increased movement speed for 2 seconds after using Blood Rush',
+
+  // Generic jewelry
+  'Ring of Royal Grandeur': 'Reduces the number of items needed for set bonuses by 1 (to a minimum of 2)',
+  'Convention of Elements': 'Gain 150-200% increased damage to a single element for 4 seconds. This effect rotates between the elements available to your class',
+  'Stone of Jordan': 'Increases damage against elites by 25-30%',
+  'Obsidian Ring of the Zodiac': 'Reduce the remaining cooldown of one of your skills by 1 second when you hit with a resource-spending attack',
+  'Bul-Kathos\'s Wedding Band': 'You drain life from enemies around you',
+  'The Ess of Johan': 'Chance on hit to pull in enemies toward your target and Slow them by 60-80%',
+  'The Flavor of Time': 'Duration of pylons is increased by 50%',
+  'Rechel\'s Ring of Larceny': 'Gain 45-60% increased movement speed for 4 seconds after Fearing an enemy',
+
+  // Class jewelry
+  'Band of Might': 'After casting Ground Stomp, Leap, or Overpower, gain 60-80% damage reduction for 8 seconds',
+  'Halo of Karini': 'You take 45-60% less damage for 5 seconds after your Storm Armor bolt hits an enemy more than 15 yards away',
 
   // Legendary Gems
   'Bane of the Trapped': 'Increase damage against enemies under the effects of control-impairing effects by 15% plus 0.3% per rank. At rank 25, gain an aura that reduces the movement speed of enemies within 15 yards by 30%',
@@ -135,163 +209,804 @@ export const LEGENDARY_EFFECTS: Record<string, string> = {
 }
 
 /**
- * Major set bonuses for reference
+ * Legendary powers that can be extracted into Kanai's Cube, by cube slot and class.
+ * Effects live in LEGENDARY_EFFECTS. Set items and follower tokens can't be extracted.
+ */
+export const CUBE_POWERS: Record<string, CubePowerInfo> = {
+  // Weapons
+  'The Furnace': { slot: 'weapon', general: true },
+  'Blade of the Warlord': { slot: 'weapon', classes: ['barbarian'] },
+  'The Gavel of Judgment': { slot: 'weapon', classes: ['barbarian'] },
+  'Standoff': { slot: 'weapon', classes: ['barbarian'] },
+  'Johanna\'s Argument': { slot: 'weapon', classes: ['crusader'] },
+  'Darklight': { slot: 'weapon', classes: ['crusader'] },
+  'Dawn': { slot: 'weapon', classes: ['demon-hunter'] },
+  'Yang\'s Recurve': { slot: 'weapon', classes: ['demon-hunter'] },
+  'Wojahnni Assaulter': { slot: 'weapon', classes: ['demon-hunter'] },
+  'Flying Dragon': { slot: 'weapon', classes: ['monk'], general: true },
+  'Lion\'s Claw': { slot: 'weapon', classes: ['monk'] },
+  'Vengeful Wind': { slot: 'weapon', classes: ['monk'] },
+  'Scythe of the Cycle': { slot: 'weapon', classes: ['necromancer'] },
+  'Trag\'Oul\'s Corroded Fang': { slot: 'weapon', classes: ['necromancer'] },
+  'Reilena\'s Shadowhook': { slot: 'weapon', classes: ['necromancer'] },
+  'Nayr\'s Black Death': { slot: 'weapon', classes: ['necromancer'] },
+  'Bloodtide Blade': { slot: 'weapon', classes: ['necromancer'] },
+  'Funerary Pick': { slot: 'weapon', classes: ['necromancer'] },
+  'Starmetal Kukri': { slot: 'weapon', classes: ['witch-doctor'] },
+  'Deadly Rebirth': { slot: 'weapon', classes: ['witch-doctor'] },
+  'Wormwood': { slot: 'weapon', classes: ['witch-doctor'] },
+  'Unstable Scepter': { slot: 'weapon', classes: ['wizard'] },
+  'The Twisted Sword': { slot: 'weapon', classes: ['wizard'] },
+  'Deathwish': { slot: 'weapon', classes: ['wizard'] },
+
+  // Armor
+  'Aquila Cuirass': { slot: 'armor', general: true },
+  'Stone Gauntlets': { slot: 'armor' },
+  'Leoric\'s Crown': { slot: 'armor' },
+  'Ancient Parthan Defenders': { slot: 'armor' },
+  'Strongarm Bracers': { slot: 'armor' },
+  'Reaper\'s Wraps': { slot: 'armor' },
+  'Harrington Waistguard': { slot: 'armor' },
+  'Hunter\'s Wrath': { slot: 'armor' },
+  'Goldwrap': { slot: 'armor' },
+  'Gladiator Gauntlets': { slot: 'armor' },
+  'Nemesis Bracers': { slot: 'armor' },
+  'Bracers of the First Men': { slot: 'armor', classes: ['barbarian'] },
+  'Pride of Cassius': { slot: 'armor', classes: ['barbarian'] },
+  'Lut Socks': { slot: 'armor', classes: ['barbarian'] },
+  'Chilanik\'s Chain': { slot: 'armor', classes: ['barbarian'] },
+  'Spirit Guards': { slot: 'armor', classes: ['monk'], general: true },
+  'The Crudest Boots': { slot: 'armor', classes: ['monk'] },
+  'Mask of Jeram': { slot: 'armor', classes: ['witch-doctor'] },
+  'The Swami': { slot: 'armor', classes: ['wizard'] },
+  'Razeth\'s Volition': { slot: 'armor', classes: ['necromancer'] },
+  'Steuart\'s Greaves': { slot: 'armor', classes: ['necromancer'] },
+
+  // Jewelry
+  'Ring of Royal Grandeur': { slot: 'jewelry' },
+  'Convention of Elements': { slot: 'jewelry', general: true },
+  'Stone of Jordan': { slot: 'jewelry', general: true },
+  'Obsidian Ring of the Zodiac': { slot: 'jewelry' },
+  'Unity': { slot: 'jewelry', general: true },
+  'Oculus Ring': { slot: 'jewelry' },
+  'Bul-Kathos\'s Wedding Band': { slot: 'jewelry' },
+  'The Ess of Johan': { slot: 'jewelry' },
+  'The Flavor of Time': { slot: 'jewelry' },
+  'Rechel\'s Ring of Larceny': { slot: 'jewelry' },
+  'Band of Might': { slot: 'jewelry', classes: ['barbarian'] },
+  'Halo of Karini': { slot: 'jewelry', classes: ['wizard'] },
+  'Krysbin\'s Sentence': { slot: 'jewelry', classes: ['necromancer'] },
+  'Circle of Nailuj\'s Evol': { slot: 'jewelry', classes: ['necromancer'] },
+  'Haunted Visions': { slot: 'jewelry', classes: ['necromancer'] }
+}
+
+/**
+ * A member item of a set and the gear slot it occupies
  */
-export const SET_BONUSES: Record<string, Record<number, string>> = {
+export interface SetPiece {
+  name: string
+  slot: string
+}
+
+/**
+ * Set definition: member items and bonus text keyed by required piece count.
+ * Sets whose member list hasn't been catalogued yet have no pieces; their
+ * thresholds still apply but missing items can't be named.
+ */
+export interface SetCatalogEntry {
+  /** Alternate names used by the API or guides */
+  aliases?: string[]
+  pieces: SetPiece[]
+  bonuses: Record<number, string>
+}
+
+/**
+ * Set catalog - members, slots and bonus thresholds for every known set
+ */
+export const SET_CATALOG: Record<string, SetCatalogEntry> = {
   // Necromancer Sets
   'Grace of Inarius': {
-    2: 'Bone Armor damage is increased by 1000%',
-    4: 'Bone Armor grants an additional 3% damage reduction per enemy hit',
-    6: 'Bone Armor also activates a swirling tornado of bone, dealing 1000% weapon damage to all nearby enemies and increasing the damage they take from the Necromancer by 10,000%'
+    pieces: [
+      { name: 'Inarius\'s Perseverance', slot: 'head' },
+      { name: 'Inarius\'s Conviction', slot: 'shoulders' },
+      { name: 'Inarius\'s Reticence', slot: 'torso' },
+      { name: 'Inarius\'s Martyrdom', slot: 'hands' },
+      { name: 'Inarius\'s Understanding', slot: 'legs' },
+      { name: 'Inarius\'s Will', slot: 'feet' }
+    ],
+    bonuses: {
+      2: 'Bone Armor damage is increased by 1000%',
+      4: 'Bone Armor grants an additional 3% damage reduction per enemy hit',
+      6: 'Bone Armor also activates a swirling tornado of bone, dealing 1000% weapon damage to all nearby enemies and increasing the damage they take from the Necromancer by 10,000%'
+    }
   },
   'Trag\'Oul\'s Avatar': {
-    2: 'Blood Rush gains the effect of every rune',
-    4: 'While at full Life, your healing from skills is added to your maximum Life for 45 seconds, up to 100% more',
-    6: 'Your Life-spending abilities deal 10,000% increased damage and your healing from skills is increased by 100%'
+    pieces: [
+      { name: 'Trag\'Oul\'s Guise', slot: 'head' },
+      { name: 'Trag\'Oul\'s Scales', slot: 'shoulders' },
+      { name: 'Trag\'Oul\'s Heart', slot: 'torso' },
+      { name: 'Trag\'Oul\'s Claws', slot: 'hands' },
+      { name: 'Trag\'Oul\'s Stalwart Greaves', slot: 'legs' },
+      { name: 'Trag\'Oul\'s Hoof', slot: 'feet' }
+    ],
+    bonuses: {
+      2: 'Blood Rush gains the effect of every rune',
+      4: 'While at full Life, your healing from skills is added to your maximum Life for 45 seconds, up to 100% more',
+      6: 'Your Life-spending abilities deal 10,000% increased damage and your healing from skills is increased by 100%'
+    }
   },
   'Bones of Rathma': {
-    2: 'Your Skeletal Mages gain the effect of the Gift of Death and Singularity runes',
-    4: 'You gain 1% damage reduction for 15 seconds each time your Skeletal Mages deal damage. Max 75 stacks',
-    6: 'Each active Skeletal Mage increases the damage of your Skeletal Mages and Army of the Dead by 1000%'
+    pieces: [
+      { name: 'Rathma\'s Skull Helm', slot: 'head' },
+      { name: 'Rathma\'s Spikes', slot: 'shoulders' },
+      { name: 'Rathma\'s Ribcage Plate', slot: 'torso' },
+      { name: 'Rathma\'s Macabre Vambraces', slot: 'hands' },
+      { name: 'Rathma\'s Skeletal Legplates', slot: 'legs' },
+      { name: 'Rathma\'s Ossified Sabatons', slot: 'feet' }
+    ],
+    bonuses: {
+      2: 'Your Skeletal Mages gain the effect of the Gift of Death and Singularity runes',
+      4: 'You gain 1% damage reduction for 15 seconds each time your Skeletal Mages deal damage. Max 75 stacks',
+      6: 'Each active Skeletal Mage increases the damage of your Skeletal Mages and Army of the Dead by 1000%'
+    }
   },
   'Pestilence Master\'s Shroud': {
-    2: 'Each corpse you consume fires a Corpse Lance at a nearby enemy',
-    4: 'Each enemy you hit with Bone Spear, Corpse Lance, or Corpse Explosion reduces your damage taken by 2%, up to a maximum of 50%. Lasts 15 seconds',
-    6: 'Each corpse you consume grants you an Empowered Bone Spear charge that increases the damage of your next Bone Spear by 6000%. You can have up to 100 charges'
+    pieces: [
+      { name: 'Pestilence Mask', slot: 'head' },
+      { name: 'Pestilence Defense', slot: 'shoulders' },
+      { name: 'Pestilence Robe', slot: 'torso' },
+      { name: 'Pestilence Gloves', slot: 'hands' },
+      { name: 'Pestilence Incantations', slot: 'legs' },
+      { name: 'Pestilence Battle Boots', slot: 'feet' }
+    ],
+    bonuses: {
+      2: 'Each corpse you consume fires a Corpse Lance at a nearby enemy',
+      4: 'Each enemy you hit with Bone Spear, Corpse Lance, or Corpse Explosion reduces your damage taken by 2%, up to a maximum of 50%. Lasts 15 seconds',
+      6: 'Each corpse you consume grants you an Empowered Bone Spear charge that increases the damage of your next Bone Spear by 6000%. You can have up to 100 charges'
+    }
   },
   'Masquerade of the Burning Carnival': {
-    2: 'Your Simulacrums no longer take damage, gains all runes, and its cooldown is refreshed when you die',
-    4: 'While you have a Simulacrum, damage taken is reduced by 50%. Damage dealt to you is split with your Simulacrums',
-    6: 'Bone Spear cast by you and your Simulacrums deals 10,000% increased damage'
+    pieces: [],
+    bonuses: {
+      2: 'Your Simulacrums no longer take damage, gains all runes, and its cooldown is refreshed when you die',
+      4: 'While you have a Simulacrum, damage taken is reduced by 50%. Damage dealt to you is split with your Simulacrums',
+      6: 'Bone Spear cast by you and your Simulacrums deals 10,000% increased damage'
+    }
   },
 
   // Craftable Sets (2pc + 3pc bonuses)
   'Captain Crimson\'s Trimmings': {
-    2: 'Regenerates 6000 Life per Second. Reduces cooldown of all skills by 20%',
-    3: 'Damage dealt is increased by your percentage of Cooldown Reduction. Damage taken is reduced by your percentage of Resource Cost Reduction'
+    pieces: [
+      { name: 'Captain Crimson\'s Silk Girdle', slot: 'waist' },
+      { name: 'Captain Crimson\'s Thrust', slot: 'legs' },
+      { name: 'Captain Crimson\'s Waders', slot: 'feet' }
+    ],
+    bonuses: {
+      2: 'Regenerates 6000 Life per Second. Reduces cooldown of all skills by 20%. Reduces all resource costs by 20%',
+      3: 'Damage dealt is increased by your percentage of Cooldown Reduction. Damage taken is reduced by your percentage of Resource Cost Reduction'
+    }
   },
   'Sage\'s Journey': {
-    2: 'Gain Death\'s Breath after killing an elite pack',
-    3: 'Double the amount of Death\'s Breath that drop'
+    pieces: [
+      { name: 'Sage\'s Apogee', slot: 'head' },
+      { name: 'Sage\'s Purchase', slot: 'hands' },
+      { name: 'Sage\'s Passage', slot: 'feet' }
+    ],
+    bonuses: {
+      2: 'Gain Death\'s Breath after killing an elite pack',
+      3: 'Double the amount of Death\'s Breath that drop'
+    }
   },
   'Aughild\'s Authority': {
-    2: 'Reduces damage taken by 15%',
-    3: 'Reduces damage taken from elites by 30%. Increases damage dealt to elites by 30%'
+    pieces: [
+      { name: 'Aughild\'s Spike', slot: 'head' },
+      { name: 'Aughild\'s Power', slot: 'shoulders' },
+      { name: 'Aughild\'s Rule', slot: 'torso' },
+      { name: 'Aughild\'s Search', slot: 'wrists' }
+    ],
+    bonuses: {
+      2: 'Reduces damage taken by 15%',
+      3: 'Reduces damage taken from elites by 30%. Increases damage dealt to elites by 30%'
+    }
   },
   'Born\'s Command': {
-    2: 'Reduces all cooldowns by 10%',
-    3: '+15% Life. +20% bonus experience'
+    pieces: [
+      { name: 'Born\'s Privilege', slot: 'shoulders' },
+      { name: 'Born\'s Frozen Soul', slot: 'torso' },
+      { name: 'Born\'s Furious Wrath', slot: 'mainHand' }
+    ],
+    bonuses: {
+      2: 'Reduces all cooldowns by 10%',
+      3: '+15% Life. +20% bonus experience'
+    }
   },
   'Cain\'s Destiny': {
-    2: '+50% bonus experience',
-    3: 'Attack Speed increased by 8%. 25% better chance of finding a Legendary item'
+    pieces: [
+      { name: 'Cain\'s Insight', slot: 'head' },
+      { name: 'Cain\'s Habit', slot: 'torso' },
+      { name: 'Cain\'s Scrivener', slot: 'hands' },
+      { name: 'Cain\'s Robes', slot: 'legs' },
+      { name: 'Cain\'s Travelers', slot: 'feet' }
+    ],
+    bonuses: {
+      2: '+50% bonus experience',
+      3: 'Attack Speed increased by 8%. 25% better chance of finding a Legendary item'
+    }
   },
   'Asheara\'s Vestments': {
-    2: '+20% Life',
-    3: 'Attacks cause your followers to occasionally come to your aid'
+    pieces: [
+      { name: 'Asheara\'s Custodian', slot: 'shoulders' },
+      { name: 'Asheara\'s Gage', slot: 'hands' },
+      { name: 'Asheara\'s Ward', slot: 'waist' },
+      { name: 'Asheara\'s Finders', slot: 'feet' }
+    ],
+    bonuses: {
+      2: '+20% Life',
+      3: 'Attacks cause your followers to occasionally come to your aid'
+    }
   },
   'Guardian\'s Jeopardy': {
-    2: '+250 Vitality',
-    3: '+15% movement speed. Regenerates 8000 Life per Second'
+    pieces: [],
+    bonuses: {
+      2: '+250 Vitality',
+      3: '+15% movement speed. Regenerates 8000 Life per Second'
+    }
   },
   'Demon\'s Hide': {
-    2: 'Reduces damage from melee attacks by 20%',
-    3: 'Reduces damage from ranged attacks by 20%'
+    pieces: [
+      { name: 'Demon\'s Aileron', slot: 'shoulders' },
+      { name: 'Demon\'s Heart', slot: 'torso' },
+      { name: 'Demon\'s Restraint', slot: 'waist' },
+      { name: 'Demon\'s Marrow', slot: 'legs' },
+      { name: 'Demon\'s Plate', slot: 'feet' }
+    ],
+    bonuses: {
+      2: 'Reduces damage from melee attacks by 20%',
+      3: 'Reduces damage from ranged attacks by 20%'
+    }
   },
 
   // Barbarian Sets
   'Wrath of the Wastes': {
-    2: 'Increase the damage per second of Rend by 500% and its duration to 15 seconds',
-    4: 'During Whirlwind and for 3 seconds after, you gain 50% damage reduction and your applied Rends deal triple damage',
-    6: 'Whirlwind gains the effect of the Dust Devils rune and Whirlwind and its Dust Devils deal 10,000% increased damage'
+    pieces: [
+      { name: 'Helm of the Wastes', slot: 'head' },
+      { name: 'Pauldrons of the Wastes', slot: 'shoulders' },
+      { name: 'Cuirass of the Wastes', slot: 'torso' },
+      { name: 'Gauntlet of the Wastes', slot: 'hands' },
+      { name: 'Legplates of the Wastes', slot: 'legs' },
+      { name: 'Sabaton of the Wastes', slot: 'feet' }
+    ],
+    bonuses: {
+      2: 'Increase the damage per second of Rend by 500% and its duration to 15 seconds',
+      4: 'During Whirlwind and for 3 seconds after, you gain 50% damage reduction and your applied Rends deal triple damage',
+      6: 'Whirlwind gains the effect of the Dust Devils rune and Whirlwind and its Dust Devils deal 10,000% increased damage'
+    }
   },
   'Immortal King\'s Call': {
-    2: 'Call of the Ancients last until they die',
-    4: 'Reduce the cooldown of Wrath of the Berserker and Call of the Ancients by 3 seconds for every 10 Fury you spend with an attack',
-    6: 'While both Wrath of the Berserker and Call of the Ancients are active, you deal 4000% increased damage'
+    pieces: [
+      { name: 'Immortal King\'s Triumph', slot: 'head' },
+      { name: 'Immortal King\'s Eternal Reign', slot: 'torso' },
+      { name: 'Immortal King\'s Irons', slot: 'hands' },
+      { name: 'Immortal King\'s Tribal Binding', slot: 'waist' },
+      { name: 'Immortal King\'s Stride', slot: 'feet' },
+      { name: 'Immortal King\'s Boulder Breaker', slot: 'mainHand' }
+    ],
+    bonuses: {
+      2: 'Call of the Ancients last until they die',
+      4: 'Reduce the cooldown of Wrath of the Berserker and Call of the Ancients by 3 seconds for every 10 Fury you spend with an attack',
+      6: 'While both Wrath of the Berserker and Call of the Ancients are active, you deal 4000% increased damage'
+    }
   },
   'Horde of the Ninety Savages': {
-    2: 'Double the effectiveness of shouts. Shouts instead grant 100% increased damage',
-    4: 'Each stack of Frenzy reduces damage taken by 6% and increases damage dealt by 10%',
-    6: 'Frenzy deals 10,000% increased damage'
+    pieces: [],
+    bonuses: {
+      2: 'Double the effectiveness of shouts. Shouts instead grant 100% increased damage',
+      4: 'Each stack of Frenzy reduces damage taken by 6% and increases damage dealt by 10%',
+      6: 'Frenzy deals 10,000% increased damage'
+    }
   },
   'Might of the Earth': {
-    2: 'Reduce the cooldown of Earthquake, Ground Stomp, Leap, and Avalanche by 1 second for every 30 Fury spent with an attack',
-    4: 'Leap causes an Earthquake when you land. Leap gains the effect of the Iron Impact rune and the rune effect and duration are increased by 150%',
-    6: 'Increase the damage of Earthquake, Avalanche, Leap, Ground Stomp, Ancient Spear, and Seismic Slam by 20,000%'
+    pieces: [
+      { name: 'Eyes of the Earth', slot: 'head' },
+      { name: 'Spires of the Earth', slot: 'shoulders' },
+      { name: 'Spirit of the Earth', slot: 'torso' },
+      { name: 'Pull of the Earth', slot: 'hands' },
+      { name: 'Foundation of the Earth', slot: 'legs' },
+      { name: 'Weight of the Earth', slot: 'feet' }
+    ],
+    bonuses: {
+      2: 'Reduce the cooldown of Earthquake, Ground Stomp, Leap, and Avalanche by 1 second for every 30 Fury spent with an attack',
+      4: 'Leap causes an Earthquake when you land. Leap gains the effect of the Iron Impact rune and the rune effect and duration are increased by 150%',
+      6: 'Increase the damage of Earthquake, Avalanche, Leap, Ground Stomp, Ancient Spear, and Seismic Slam by 20,000%'
+    }
   },
 
   // Demon Hunter Sets
   'Unhallowed Essence': {
-    2: 'Your generators generate 2 additional Hatred and 1 Discipline',
-    4: 'Gain 60% damage reduction and deal 60% increased damage for 8 seconds if no enemy is within 10 yards of you',
-    6: 'Your generators, Multishot, and Vengeance deal 100% increased damage for every point of Discipline you have'
+    pieces: [
+      { name: 'Accursed Visage', slot: 'head' },
+      { name: 'Unsanctified Shoulders', slot: 'shoulders' },
+      { name: 'Cage of the Hellborn', slot: 'torso' },
+      { name: 'Fiendish Grips', slot: 'hands' },
+      { name: 'Unholy Plates', slot: 'legs' },
+      { name: 'Hell Walkers', slot: 'feet' }
+    ],
+    bonuses: {
+      2: 'Your generators generate 2 additional Hatred and 1 Discipline',
+      4: 'Gain 60% damage reduction and deal 60% increased damage for 8 seconds if no enemy is within 10 yards of you',
+      6: 'Your generators, Multishot, and Vengeance deal 100% increased damage for every point of Discipline you have'
+    }
   },
   'Natalya\'s Vengeance': {
-    2: 'Reduce the cooldown of Rain of Vengeance by 4 seconds when you hit with a Hatred-generating attack or a Hatred-spending attack',
-    4: 'Rain of Vengeance deals 100% increased damage',
-    6: 'After casting Rain of Vengeance, deal 14,000% increased damage and take 60% reduced damage for 10 seconds'
+    pieces: [
+      { name: 'Natalya\'s Sight', slot: 'head' },
+      { name: 'Natalya\'s Embrace', slot: 'torso' },
+      { name: 'Natalya\'s Touch', slot: 'hands' },
+      { name: 'Natalya\'s Leggings', slot: 'legs' },
+      { name: 'Natalya\'s Bloody Footprints', slot: 'feet' },
+      { name: 'Natalya\'s Reflection', slot: 'leftFinger' },
+      { name: 'Natalya\'s Slayer', slot: 'mainHand' }
+    ],
+    bonuses: {
+      2: 'Reduce the cooldown of Rain of Vengeance by 4 seconds when you hit with a Hatred-generating attack or a Hatred-spending attack',
+      4: 'Rain of Vengeance deals 100% increased damage',
+      6: 'After casting Rain of Vengeance, deal 14,000% increased damage and take 60% reduced damage for 10 seconds'
+    }
   },
-  'Marauder\'s': {
-    2: 'Companion calls all companion types to your side',
-    4: 'Sentries deal 400% increased damage and cast Elemental Arrow, Chakram, Impale, Multishot, and Cluster Arrow when you do',
-    6: 'Your primary skills, Elemental Arrow, Chakram, Impale, Multishot, Cluster Arrow, Companions, and Vengeance deal 12,000% increased damage for every active Sentry'
+  'Embodiment of the Marauder': {
+    aliases: ['Marauder\'s'],
+    pieces: [
+      { name: 'Marauder\'s Visage', slot: 'head' },
+      { name: 'Marauder\'s Spines', slot: 'shoulders' },
+      { name: 'Marauder\'s Carapace', slot: 'torso' },
+      { name: 'Marauder\'s Gloves', slot: 'hands' },
+      { name: 'Marauder\'s Encasement', slot: 'legs' },
+      { name: 'Marauder\'s Treads', slot: 'feet' }
+    ],
+    bonuses: {
+      2: 'Companion calls all companion types to your side',
+      4: 'Sentries deal 400% increased damage and cast Elemental Arrow, Chakram, Impale, Multishot, and Cluster Arrow when you do',
+      6: 'Your primary skills, Elemental Arrow, Chakram, Impale, Multishot, Cluster Arrow, Companions, and Vengeance deal 12,000% increased damage for every active Sentry'
+    }
   },
 
   // Wizard Sets
   'Tal Rasha\'s Elements': {
-    2: 'Damaging enemies with Arcane, Cold, Fire or Lightning will cause a Meteor of the same damage type to fall from the sky. There is an 8 second cooldown for each damage type',
-    4: 'Arcane, Cold, Fire, and Lightning attacks each increase all of your resistances by 25% for 8 seconds',
-    6: 'Attacks increase your damage by 2000% for 8 seconds. Arcane, Cold, Fire, and Lightning attacks each add one stack. At 4 stacks, each element\'s damage bonus is increased to 8000%'
+    pieces: [
+      { name: 'Tal Rasha\'s Guise of Wisdom', slot: 'head' },
+      { name: 'Tal Rasha\'s Relentless Pursuit', slot: 'torso' },
+      { name: 'Tal Rasha\'s Allegiance', slot: 'neck' },
+      { name: 'Tal Rasha\'s Brace', slot: 'waist' },
+      { name: 'Tal Rasha\'s Unwavering Glare', slot: 'offHand' }
+    ],
+    bonuses: {
+      2: 'Damaging enemies with Arcane, Cold, Fire or Lightning will cause a Meteor of the same damage type to fall from the sky. There is an 8 second cooldown for each damage type',
+      4: 'Arcane, Cold, Fire, and Lightning attacks each increase all of your resistances by 25% for 8 seconds',
+      6: 'Attacks increase your damage by 2000% for 8 seconds. Arcane, Cold, Fire, and Lightning attacks each add one stack. At 4 stacks, each element\'s damage bonus is increased to 8000%'
+    }
   },
   'Firebird\'s Finery': {
-    2: 'When you die, a meteor falls from the sky and revives you. This effect has a 60 second cooldown',
-    4: 'Your damage is increased by 80% and damage taken reduced by 3% for each enemy that is Ignited. This effect can stack up to 20 times',
-    6: 'You gain 2500% increased damage while Ignite is applied to a target. Hitting an Ignited enemy with a non-channeling fire spell deals Ignite damage multiplied by Combustion stacks'
+    pieces: [
+      { name: 'Firebird\'s Plume', slot: 'head' },
+      { name: 'Firebird\'s Pinions', slot: 'shoulders' },
+      { name: 'Firebird\'s Breast', slot: 'torso' },
+      { name: 'Firebird\'s Talon', slot: 'hands' },
+      { name: 'Firebird\'s Down', slot: 'legs' },
+      { name: 'Firebird\'s Tarsi', slot: 'feet' },
+      { name: 'Firebird\'s Eye', slot: 'offHand' }
+    ],
+    bonuses: {
+      2: 'When you die, a meteor falls from the sky and revives you. This effect has a 60 second cooldown',
+      4: 'Your damage is increased by 80% and damage taken reduced by 3% for each enemy that is Ignited. This effect can stack up to 20 times',
+      6: 'You gain 2500% increased damage while Ignite is applied to a target. Hitting an Ignited enemy with a non-channeling fire spell deals Ignite damage multiplied by Combustion stacks'
+    }
   },
 
   // Monk Sets
   'Inna\'s Mantra': {
-    2: 'Increase the passive effect of your Mystic Ally and the damage of your Mystic Ally by 100%',
-    4: 'Gain the base effect of all four Mantras at all times. Your Mystic Allies are unkillable',
-    6: 'Gain the passive abilities of the five runed Mystic Allies at all times. Attacking enemies creates your runed Mystic Allies that deal 950% weapon damage on hit. Your Mystic Allies deal 9500% increased damage'
+    pieces: [
+      { name: 'Inna\'s Radiance', slot: 'head' },
+      { name: 'Inna\'s Vast Expanse', slot: 'torso' },
+      { name: 'Inna\'s Favor', slot: 'waist' },
+      { name: 'Inna\'s Temperance', slot: 'legs' },
+      { name: 'Inna\'s Sandals', slot: 'feet' },
+      { name: 'Inna\'s Reach', slot: 'mainHand' }
+    ],
+    bonuses: {
+      2: 'Increase the passive effect of your Mystic Ally and the damage of your Mystic Ally by 100%',
+      4: 'Gain the base effect of all four Mantras at all times. Your Mystic Allies are unkillable',
+      6: 'Gain the passive abilities of the five runed Mystic Allies at all times. Attacking enemies creates your runed Mystic Allies that deal 950% weapon damage on hit. Your Mystic Allies deal 9500% increased damage'
+    }
   },
   'Patterns of Justice': {
-    2: 'Sweeping Wind gains the effect of every rune, and movement speed is increased by 5% for each stack of Sweeping Wind',
-    4: 'Tempest Rush gains the effect of the Flurry rune, and Tempest Rush and Flurry deal 15,000% increased damage',
-    6: 'Hitting with Tempest Rush while Sweeping Wind is active increases the size of Sweeping Wind and also increases all damage dealt by 15,000%'
+    pieces: [],
+    bonuses: {
+      2: 'Sweeping Wind gains the effect of every rune, and movement speed is increased by 5% for each stack of Sweeping Wind',
+      4: 'Tempest Rush gains the effect of the Flurry rune, and Tempest Rush and Flurry deal 15,000% increased damage',
+      6: 'Hitting with Tempest Rush while Sweeping Wind is active increases the size of Sweeping Wind and also increases all damage dealt by 15,000%'
+    }
   },
 
   // Crusader Sets
   'Aegis of Valor': {
-    2: 'Attacking with Fist of the Heavens empowers you, allowing Heaven\'s Fury to deal 100% increased damage for 5 seconds. Stacks up to 3 times multiplicatively',
-    4: 'Hitting with Fist of the Heavens generates 5 Wrath and reduces damage taken by 1% for 5 seconds. Stacks up to 50 times',
-    6: 'Increase the damage of Fist of the Heavens and Heaven\'s Fury by 20,000%'
+    pieces: [],
+    bonuses: {
+      2: 'Attacking with Fist of the Heavens empowers you, allowing Heaven\'s Fury to deal 100% increased damage for 5 seconds. Stacks up to 3 times multiplicatively',
+      4: 'Hitting with Fist of the Heavens generates 5 Wrath and reduces damage taken by 1% for 5 seconds. Stacks up to 50 times',
+      6: 'Increase the damage of Fist of the Heavens and Heaven\'s Fury by 20,000%'
+    }
   },
   'Armor of Akkhan': {
-    2: 'Reduce the cost of all abilities by 50% while Akarat\'s Champion is active',
-    4: 'Reduce the cooldown of Akarat\'s Champion by 50%',
-    6: 'While Akarat\'s Champion is active, deal 2000% increased damage and take 50% less damage'
+    pieces: [
+      { name: 'Helm of Akkhan', slot: 'head' },
+      { name: 'Pauldrons of Akkhan', slot: 'shoulders' },
+      { name: 'Breastplate of Akkhan', slot: 'torso' },
+      { name: 'Gauntlets of Akkhan', slot: 'hands' },
+      { name: 'Cuisses of Akkhan', slot: 'legs' },
+      { name: 'Sabatons of Akkhan', slot: 'feet' }
+    ],
+    bonuses: {
+      2: 'Reduce the cost of all abilities by 50% while Akarat\'s Champion is active',
+      4: 'Reduce the cooldown of Akarat\'s Champion by 50%',
+      6: 'While Akarat\'s Champion is active, deal 2000% increased damage and take 50% less damage'
+    }
   },
   'Roland\'s Legacy': {
-    2: 'Every use of Shield Bash and Sweep Attack reduces the cooldowns of your Laws and Defensive Skills by 1 second',
-    4: 'Increase the damage of Shield Bash and Sweep Attack by 13,000%',
-    6: 'Every use of Shield Bash or Sweep Attack that hits an enemy grants 75% increased Attack Speed for 5 seconds. This effect stacks up to 5 times'
+    pieces: [
+      { name: 'Roland\'s Visage', slot: 'head' },
+      { name: 'Roland\'s Mantle', slot: 'shoulders' },
+      { name: 'Roland\'s Bearing', slot: 'torso' },
+      { name: 'Roland\'s Grasp', slot: 'hands' },
+      { name: 'Roland\'s Determination', slot: 'legs' },
+      { name: 'Roland\'s Stride', slot: 'feet' }
+    ],
+    bonuses: {
+      2: 'Every use of Shield Bash and Sweep Attack reduces the cooldowns of your Laws and Defensive Skills by 1 second',
+      4: 'Increase the damage of Shield Bash and Sweep Attack by 13,000%',
+      6: 'Every use of Shield Bash or Sweep Attack that hits an enemy grants 75% increased Attack Speed for 5 seconds. This effect stacks up to 5 times'
+    }
   },
 
   // Witch Doctor Sets
   'Zunimassa\'s Haunt': {
-    2: 'Your Fetish Army lasts until they die and the cooldown of your Fetish Army is reduced by 80%',
-    4: 'You and your Fetishes take 3% reduced damage for every Fetish you have alive',
-    6: 'Enemies hit by your Mana spenders take 15,000% increased damage from your Pets for 8 seconds'
+    pieces: [
+      { name: 'Zunimassa\'s Vision', slot: 'head' },
+      { name: 'Zunimassa\'s Marrow', slot: 'torso' },
+      { name: 'Zunimassa\'s Cloth', slot: 'legs' },
+      { name: 'Zunimassa\'s Trail', slot: 'feet' },
+      { name: 'Zunimassa\'s String of Skulls', slot: 'offHand' },
+      { name: 'Zunimassa\'s Pox', slot: 'leftFinger' }
+    ],
+    bonuses: {
+      2: 'Your Fetish Army lasts until they die and the cooldown of your Fetish Army is reduced by 80%',
+      4: 'You and your Fetishes take 3% reduced damage for every Fetish you have alive',
+      6: 'Enemies hit by your Mana spenders take 15,000% increased damage from your Pets for 8 seconds'
+    }
   },
   'Spirit of Arachyr': {
-    2: 'Summon a permanent Spider Queen who leaves behind webs that deal 4000% weapon damage over 5 seconds and Slows enemies. The Spider Queen is commanded to move to where you cast your Corpse Spiders',
-    4: 'Hex gains the effect of the Toad of Hugeness rune. After Toad of Hugeness pulls in an enemy, you deal 50% increased damage for 15 seconds',
-    6: 'The damage of your creature skills is increased by 9000%. Creature skills are Corpse Spiders, Plague of Toads, Firebats, Locust Swarm, Hex, and Piranhas'
+    pieces: [
+      { name: 'Arachyr\'s Visage', slot: 'head' },
+      { name: 'Arachyr\'s Mantle', slot: 'shoulders' },
+      { name: 'Arachyr\'s Carapace', slot: 'torso' },
+      { name: 'Arachyr\'s Claws', slot: 'hands' },
+      { name: 'Arachyr\'s Legs', slot: 'legs' },
+      { name: 'Arachyr\'s Stride', slot: 'feet' }
+    ],
+    bonuses: {
+      2: 'Summon a permanent Spider Queen who leaves behind webs that deal 4000% weapon damage over 5 seconds and Slows enemies. The Spider Queen is commanded to move to where you cast your Corpse Spiders',
+      4: 'Hex gains the effect of the Toad of Hugeness rune. After Toad of Hugeness pulls in an enemy, you deal 50% increased damage for 15 seconds',
+      6: 'The damage of your creature skills is increased by 9000%. Creature skills are Corpse Spiders, Plague of Toads, Firebats, Locust Swarm, Hex, and Piranhas'
+    }
+  },
+
+  // Jewelry Sets
+  'Bastions of Will': {
+    aliases: ['Focus and Restraint'],
+    pieces: [
+      { name: 'Focus', slot: 'leftFinger' },
+      { name: 'Restraint', slot: 'rightFinger' }
+    ],
+    bonuses: {
+      2: 'Using a resource-generating attack increases damage dealt by 50% for 5 seconds. Using a resource-spending attack increases damage dealt by 50% for 5 seconds'
+    }
+  },
+  'Endless Walk': {
+    pieces: [
+      { name: 'The Traveler\'s Pledge', slot: 'neck' },
+      { name: 'The Compass Rose', slot: 'leftFinger' }
+    ],
+    bonuses: {
+      2: 'While moving, damage taken is reduced by up to 50%. While standing still, damage dealt is increased by up to 100%'
+    }
+  }
+}
+
+/**
+ * Damage bonus of legendary gems by rank: (base + perRank x rank) x stacks.
+ * Uptime assumptions follow common sim sheets (full stacks, max Zei's distance).
+ */
+export interface GemDamageInfo {
+  base: number
+  perRank: number
+  stacks?: number
+  /** Rank the bonus unlocks at (rank 25 secondary effects) */
+  minRank?: number
+  /** Only applies to elites, bosses or pets */
+  conditional?: boolean
+  note: string
+}
+
+export const LEGENDARY_GEM_DAMAGE: Record<string, GemDamageInfo> = {
+  'Bane of the Trapped': { base: 0.15, perRank: 0.003, note: 'vs control-impaired enemies' },
+  'Bane of the Powerful': { base: 0.2, perRank: 0, note: 'after killing an elite' },
+  'Zei\'s Stone of Vengeance': { base: 0.04, perRank: 0.0008, stacks: 5, note: 'at 50 yards' },
+  'Simplicity\'s Strength': { base: 0.25, perRank: 0.005, note: 'primary skills only' },
+  'Taeguk': { base: 0.005, perRank: 0.0001, stacks: 20, note: 'at 20 stacks while channeling' },
+  'Gem of Efficacious Toxin': { base: 0.1, perRank: 0, minRank: 25, note: 'vs poisoned enemies' },
+  'Bane of the Stricken': { base: 0.008, perRank: 0.0001, stacks: 50, conditional: true, note: 'vs bosses at 50 stacks' },
+  'Enforcer': { base: 0.15, perRank: 0.003, conditional: true, note: 'pet damage only' }
+}
+
+/**
+ * Damage reduction of legendary gems by rank: base + perRank x rank, capped at max
+ */
+export interface GemDefenseInfo {
+  base: number
+  perRank: number
+  max?: number
+  appliesTo?: DamageReductionScope
+  note: string
+}
+
+export const LEGENDARY_GEM_DEFENSE: Record<string, GemDefenseInfo> = {
+  'Esoteric Alteration': { base: 0.1, perRank: 0.005, max: 0.5, appliesTo: 'nonPhysical', note: 'non-Physical damage' }
+}
+
+/**
+ * Defensive passive skills: multiplicative damage reduction and/or bonus armor
+ */
+export interface PassiveDefenseInfo {
+  reduction?: number
+  /** Armor increase as a fraction (0.25 = +25%) */
+  armorBonus?: number
+  appliesTo?: DamageReductionScope
+  note: string
+}
+
+export const PASSIVE_DEFENSES: Record<string, PassiveDefenseInfo> = {
+  'Superstition': { reduction: 0.2, appliesTo: 'nonPhysical', note: 'Barbarian: less non-Physical damage' },
+  'Tough as Nails': { armorBonus: 0.25, note: 'Barbarian: +25% Armor' },
+  'Blur': { reduction: 0.17, appliesTo: 'melee', note: 'Wizard: less melee damage' },
+  'Jungle Fortitude': { reduction: 0.2, note: 'Witch Doctor: less damage taken' },
+  'Seize the Initiative': { armorBonus: 0.3, note: 'Monk: more Armor' },
+  'Stand Alone': { armorBonus: 1, note: 'Necromancer: +100% Armor without minions' }
+}
+
+// Classes with the innate 30% melee-class damage reduction
+export const MELEE_CLASS_REDUCTION: Record<string, number> = {
+  barbarian: 0.3,
+  crusader: 0.3,
+  monk: 0.3
+}
+
+/**
+ * Cooldown reduction of legendary gems, unlocked at minRank
+ */
+export interface GemCooldownInfo {
+  cdr: number
+  minRank: number
+  note: string
+}
+
+export const LEGENDARY_GEM_COOLDOWN: Record<string, GemCooldownInfo> = {
+  'Gogok of Swiftness': { cdr: 0.15, minRank: 25, note: 'at 15 stacks of Swiftness' }
+}
+
+/**
+ * Passive skills that reduce cooldowns or resource costs, optionally only for some skills
+ */
+export interface PassiveCooldownInfo {
+  cdr?: number
+  rcr?: number
+  skills?: string[]
+  note: string
+}
+
+export const PASSIVE_COOLDOWNS: Record<string, PassiveCooldownInfo> = {
+  'Evocation': { cdr: 0.2, note: 'Wizard: all skills' },
+  'Beacon of Ytar': { cdr: 0.2, note: 'Monk: all skills' },
+  'Perfectionist': { rcr: 0.1, note: 'Demon Hunter: Discipline costs' },
+  'Tribal Rites': {
+    cdr: 0.25,
+    skills: ['Fetish Army', 'Big Bad Voodoo', 'Hex', 'Gargantuan', 'Summon Zombie Dogs', 'Mass Confusion'],
+    note: 'Witch Doctor: listed skills only'
   }
 }
 
+/**
+ * Base cooldowns of skills with an uptime breakpoint. Permanent uptime needs
+ * 1 - duration / cooldown CDR; runes and items that extend durations aren't counted.
+ */
+export interface SkillCooldownInfo {
+  /** Seconds */
+  cooldown: number
+  /** Seconds of effect per cast */
+  duration?: number
+}
+
+export const SKILL_COOLDOWNS: Record<string, SkillCooldownInfo> = {
+  // Barbarian
+  'Wrath of the Berserker': { cooldown: 120, duration: 20 },
+  'Call of the Ancients': { cooldown: 120, duration: 20 },
+  'Ignore Pain': { cooldown: 30, duration: 5 },
+  // Crusader
+  'Akarat\'s Champion': { cooldown: 90, duration: 20 },
+  'Laws of Valor': { cooldown: 30, duration: 5 },
+  'Iron Skin': { cooldown: 30, duration: 4 },
+  'Steed Charge': { cooldown: 16, duration: 2 },
+  // Demon Hunter
+  'Vengeance': { cooldown: 90, duration: 20 },
+  'Preparation': { cooldown: 45 },
+  'Companion': { cooldown: 30 },
+  // Monk
+  'Epiphany': { cooldown: 60, duration: 15 },
+  'Serenity': { cooldown: 16, duration: 3 },
+  'Mystic Ally': { cooldown: 30 },
+  // Necromancer
+  'Simulacrum': { cooldown: 120, duration: 15 },
+  'Land of the Dead': { cooldown: 120, duration: 10 },
+  'Bone Armor': { cooldown: 10, duration: 60 },
+  // Witch Doctor
+  'Big Bad Voodoo': { cooldown: 120, duration: 20 },
+  'Fetish Army': { cooldown: 120, duration: 20 },
+  'Spirit Walk': { cooldown: 15, duration: 2 },
+  'Hex': { cooldown: 15, duration: 7 },
+  // Wizard
+  'Archon': { cooldown: 120, duration: 20 },
+  'Teleport': { cooldown: 11 }
+}
+
+/**
+ * Animation frames per action at 1.0 attacks per second (60 frames per second).
+ * Channeled skills list frames per damage tick. Frames per action are whole
+ * frames, so speed only helps once it drops a full frame. Values are approximate;
+ * confirm exact breakpoints in game.
+ */
+export interface SkillFrameInfo {
+  frames: number
+  channeled?: boolean
+  /** Frames for weapon types that use a different animation, by weapon type slug */
+  byWeapon?: Record<string, number>
+}
+
+export const SKILL_FRAMES: Record<string, SkillFrameInfo> = {
+  // Channeled
+  'Disintegrate': { frames: 20, channeled: true },
+  'Arcane Torrent': { frames: 20, channeled: true },
+  'Ray of Frost': { frames: 20, channeled: true },
+  'Firebats': { frames: 30, channeled: true },
+  'Siphon Blood': { frames: 20, channeled: true },
+  'Whirlwind': { frames: 20, channeled: true },
+  'Rapid Fire': { frames: 20, channeled: true },
+  'Strafe': { frames: 20, channeled: true },
+  'Tempest Rush': { frames: 20, channeled: true },
+  // Generators and spenders with a standard attack animation
+  'Multishot': { frames: 60 },
+  'Hungering Arrow': { frames: 60 },
+  'Entangling Shot': { frames: 60 },
+  'Bone Spear': { frames: 60 },
+  'Grasp of the Dead': { frames: 60 },
+  'Meteor': { frames: 60 },
+  'Arcane Orb': { frames: 60 },
+  'Blessed Shield': { frames: 60 },
+  'Fist of the Heavens': { frames: 60 },
+  'Zombie Charger': { frames: 60 },
+  'Poison Dart': { frames: 60 }
+}
+
+// Attack speed from Gogok of Swiftness per stack of Swiftness
+export const GOGOK_IAS_PER_STACK = 0.01
+export const GOGOK_MAX_STACKS = 15
+
+// Paragon offense: up to 50 points at 0.2% each
+export const PARAGON_IAS_PER_POINT = 0.002
+export const PARAGON_IAS_MAX_POINTS = 50
+
+// Paragon CDR (Offense) and RCR (Utility): up to 50 points at 0.2% each
+export const PARAGON_CDR_MAX = 0.1
+export const PARAGON_RCR_MAX = 0.1
+
+/**
+ * Legendary gem upgrade chance by how far the Greater Rift level is above the gem's rank.
+ * Ten or more levels above is a guaranteed upgrade; below the gem's rank upgrades can't succeed.
+ */
+export const GEM_UPGRADE_CHANCE: Record<number, number> = {
+  0: 0.01,
+  1: 0.02,
+  2: 0.04,
+  3: 0.08,
+  4: 0.15,
+  5: 0.3,
+  6: 0.6,
+  7: 0.7,
+  8: 0.8,
+  9: 0.9
+}
+export const GEM_GUARANTEED_LEVEL_GAP = 10
+
+// Upgrade attempts per Greater Rift clear, one more when empowered
+export const GEM_UPGRADE_ATTEMPTS = 3
+export const GEM_EMPOWERED_ATTEMPTS = 4
+
+// Rank that unlocks a legendary gem's secondary effect, and the rank cap
+export const GEM_SECONDARY_RANK = 25
+export const GEM_MAX_RANK = 150
+
+/**
+ * Paragon stats by category. Levels rotate Core, Offense, Defense, Utility up to
+ * PARAGON_ROTATION_LEVEL; every level after that gives a Core point.
+ */
+export const PARAGON_STATS: Record<ParagonStat, ParagonStatInfo> = {
+  mainStat: { category: 'core', label: 'Primary Stat', perPoint: 5, isPercent: false },
+  vitality: { category: 'core', label: 'Vitality', perPoint: 5, isPercent: false },
+  movementSpeed: { category: 'core', label: 'Movement Speed', perPoint: 0.5, isPercent: true, maxPoints: 50 },
+  maxResource: { category: 'core', label: 'Maximum Resource', isPercent: false, maxPoints: 50 },
+  attackSpeed: { category: 'offense', label: 'Attack Speed', perPoint: 0.2, isPercent: true, maxPoints: 50 },
+  cooldownReduction: { category: 'offense', label: 'Cooldown Reduction', perPoint: 0.2, isPercent: true, maxPoints: 50 },
+  critChance: { category: 'offense', label: 'Critical Hit Chance', perPoint: 0.1, isPercent: true, maxPoints: 50 },
+  critDamage: { category: 'offense', label: 'Critical Hit Damage', perPoint: 1, isPercent: true, maxPoints: 50 },
+  lifePercent: { category: 'defense', label: 'Life', perPoint: 0.5, isPercent: true, maxPoints: 50 },
+  armor: { category: 'defense', label: 'Armor', perPoint: 0.5, isPercent: true, maxPoints: 50 },
+  allResist: { category: 'defense', label: 'All Resistance', perPoint: 5, isPercent: false, maxPoints: 50 },
+  lifeRegen: { category: 'defense', label: 'Life Regeneration', isPercent: false, maxPoints: 50 },
+  areaDamage: { category: 'utility', label: 'Area Damage', perPoint: 1, isPercent: true, maxPoints: 50 },
+  resourceCostReduction: { category: 'utility', label: 'Resource Cost Reduction', perPoint: 0.2, isPercent: true, maxPoints: 50 },
+  lifeOnHit: { category: 'utility', label: 'Life on Hit', isPercent: false, maxPoints: 50 },
+  goldFind: { category: 'utility', label: 'Gold Find', perPoint: 1, isPercent: true, maxPoints: 50 }
+}
+
+export const PARAGON_ROTATION_LEVEL = 800
+
+// Common spend order when no build guide sets one
+export const DEFAULT_PARAGON_PRIORITIES: Record<ParagonCategory, ParagonStat[]> = {
+  core: ['movementSpeed', 'mainStat', 'maxResource', 'vitality'],
+  offense: ['cooldownReduction', 'critChance', 'critDamage', 'attackSpeed'],
+  defense: ['lifePercent', 'allResist', 'armor', 'lifeRegen'],
+  utility: ['areaDamage', 'resourceCostReduction', 'lifeOnHit', 'goldFind']
+}
+
+/**
+ * Major set bonuses for reference, keyed by set name and alias
+ */
+export const SET_BONUSES: Record<string, Record<number, string>> = Object.fromEntries(
+  Object.entries(SET_CATALOG).flatMap(([name, entry]) =>
+    [name, ...(entry.aliases ?? [])].map(key => [key, entry.bonuses])
+  )
+)
+
+/**
+ * Ring and jewelry sets that consume multiple slots
+ * Used to detect impossible slot conflicts in recommendations
+ */
+export interface SetSlotInfo {
+  slots: string[]
+  items: string[]
+}
+
+const JEWELRY_SLOTS = ['neck', 'leftFinger', 'rightFinger']
+
+export const JEWELRY_SETS: Record<string, SetSlotInfo> = Object.fromEntries(
+  Object.entries(SET_CATALOG)
+    .filter(([, entry]) => entry.pieces.length > 0 && entry.pieces.every(p => JEWELRY_SLOTS.includes(p.slot)))
+    .flatMap(([name, entry]) => {
+      const info: SetSlotInfo = {
+        slots: entry.pieces.map(p => p.slot),
+        items: entry.pieces.map(p => p.name)
+      }
+      return [name, ...(entry.aliases ?? [])].map(key => [key, info])
+    })
+)
+
 /**
  * Item acquisition data - how to farm each item
  * Used for generating realistic upgrade recommendations with farming guidance
@@ -1087,7 +1802,7 @@ export function getActiveSetBonuses(
   actualPieces: number,
   hasRoRG: boolean
 ): { pieces: number; bonus: string; isRoRGEnabled: boolean }[] {
-  const bonuses = SET_BONUSES[setName]
+  const bonuses = getSetCatalogEntry(setName)?.bonuses
   if (!bonuses) return []
 
   const effectivePieces = getEffectivePieces(actualPieces, hasRoRG)
@@ -1101,3 +1816,44 @@ export function getActiveSetBonuses(
     }))
     .sort((a, b) => a.pieces - b.pieces)
 }
+
+/**
+ * Look up a set in the catalog by name or alias
+ * Falls back to a partial match ("Marauder" -> "Embodiment of the Marauder")
+ */
+export function getSetCatalogEntry(setName: string): (SetCatalogEntry & { name: string }) | null {
+  const lower = setName.toLowerCase()
+  const names = (name: string, entry: SetCatalogEntry) =>
+    [name, ...(entry.aliases ?? [])].map(n => n.toLowerCase())
+
+  const entries = Object.entries(SET_CATALOG)
+  const match = entries.find(([name, entry]) => names(name, entry).includes(lower)) ??
+    entries.find(([name, entry]) => names(name, entry).some(n => lower.includes(n) || n.includes(lower)))
+
+  return match ? { name: match[0], ...match[1] } : null
+}
+
+/**
+ * Find the set a catalogued item belongs to
+ */
+export function findSetForItem(itemName: string): (SetCatalogEntry & { name: string }) | null {
+  const lower = itemName.toLowerCase()
+  const match = Object.entries(SET_CATALOG)
+    .find(([, entry]) => entry.pieces.some(p => p.name.toLowerCase() === lower))
+  return match ? { name: match[0], ...match[1] } : null
+}
+
+/**
+ * Bonus thresholds for a set, ascending (e.g. [2, 4, 6] or [2, 3])
+ */
+export function getSetThresholds(entry: SetCatalogEntry): number[] {
+  return Object.keys(entry.bonuses).map(Number).sort((a, b) => a - b)
+}
+
+/**
+ * Catalogued pieces of a set that aren't among the equipped item names
+ */
+export function getMissingSetPieces(entry: SetCatalogEntry, equippedNames: string[]): SetPiece[] {
+  const equipped = new Set(equippedNames.map(n => n.toLowerCase()))
+  return entry.pieces.filter(piece => !equipped.has(piece.name.toLowerCase()))
+}
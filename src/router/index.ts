@@ -39,6 +39,24 @@ const router = createRouter({
       component: () => import('@/views/DashboardView.vue'),
       meta: { requiresConfig: true }
     },
+    {
+      path: '/history/:heroId',
+      name: 'history',
+      component: () => import('@/views/HeroHistoryView.vue'),
+      meta: { requiresConfig: true }
+    },
+    {
+      path: '/compare/:heroA/:heroB',
+      name: 'compare',
+      component: () => import('@/views/CompareView.vue'),
+      meta: { requiresConfig: true }
+    },
+    {
+      path: '/leaderboards',
+      name: 'leaderboards',
+      component: () => import('@/views/LeaderboardView.vue'),
+      meta: { requiresConfig: true }
+    },
     {
       path: '/build-advisor',
       name: 'build-advisor',
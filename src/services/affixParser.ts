@@ -0,0 +1,350 @@
+/**
+ * @file services/affixParser.ts
+ * @description Parser turning Battle.net affix display text into structured affixes
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import type { AttributeApiResponse, ItemApiResponse } from '@/types/api'
+import type { AncientRank, Item } from '@/types/hero'
+import type {
+  AffixKind,
+  AffixRange,
+  DamageElement,
+  ParsedAffix
+} from '@/types/affix'
+
+// Matches numbers like "6", "6.0", "1,234" and "1,234.5"
+const NUM = '(\\d[\\d,]*(?:\\.\\d+)?)'
+
+// Element names as they appear in affix text
+const ELEMENT = '(Physical|Fire|Cold|Lightning|Poison|Arcane|Holy)'
+
+interface AffixRule {
+  kind: AffixKind
+  pattern: RegExp
+  isPercent?: boolean
+  /** Capture group holding the element name */
+  elementGroup?: number
+  /** Capture group holding the skill name */
+  skillGroup?: number
+}
+
+/**
+ * Ordered affix rules - more specific patterns must come first
+ */
+const AFFIX_RULES: AffixRule[] = [
+  // Primary attributes
+  { kind: 'strength', pattern: new RegExp(`^\\+${NUM} Strength$`, 'i') },
+  { kind: 'dexterity', pattern: new RegExp(`^\\+${NUM} Dexterity$`, 'i') },
+  { kind: 'intelligence', pattern: new RegExp(`^\\+${NUM} Intelligence$`, 'i') },
+  { kind: 'vitality', pattern: new RegExp(`^\\+${NUM} Vitality$`, 'i') },
+
+  // Offense
+  { kind: 'critChance', pattern: new RegExp(`Critical Hit Chance Increased by ${NUM}%`, 'i'), isPercent: true },
+  { kind: 'critDamage', pattern: new RegExp(`Critical Hit Damage Increased by ${NUM}%`, 'i'), isPercent: true },
+  { kind: 'attackSpeed', pattern: new RegExp(`(?:Attack Speed Increased by|Increases Attack Speed by|Attacks per Second Increased by) ${NUM}%`, 'i'), isPercent: true },
+  { kind: 'cooldownReduction', pattern: new RegExp(`Reduces cooldown of all skills by ${NUM}%`, 'i'), isPercent: true },
+  { kind: 'resourceCostReduction', pattern: new RegExp(`Reduces all resource costs by ${NUM}%`, 'i'), isPercent: true },
+  { kind: 'elementalDamage', pattern: new RegExp(`^${ELEMENT} skills deal ${NUM}% more damage`, 'i'), isPercent: true, elementGroup: 1 },
+  { kind: 'skillDamage', pattern: new RegExp(`^Increases (.+?) Damage by ${NUM}%`, 'i'), isPercent: true, skillGroup: 1 },
+  { kind: 'eliteDamage', pattern: new RegExp(`Increases damage against elites by ${NUM}%`, 'i'), isPercent: true },
+  { kind: 'areaDamage', pattern: new RegExp(`Chance to Deal ${NUM}% Area Damage on Hit`, 'i'), isPercent: true },
+  { kind: 'bonusDamage', pattern: new RegExp(`^\\+${NUM}\\s*[-–]\\s*${NUM}(?: ${ELEMENT})? Damage$`, 'i'), elementGroup: 3 },
+  { kind: 'bonusDamage', pattern: new RegExp(`^Adds ${NUM}% to ${ELEMENT} Damage$`, 'i'), isPercent: true, elementGroup: 2 },
+  { kind: 'damagePercent', pattern: new RegExp(`^\\+${NUM}% Damage$`, 'i'), isPercent: true },
+
+  // Defense
+  { kind: 'armor', pattern: new RegExp(`^\\+${NUM} Armor$`, 'i') },
+  { kind: 'allResist', pattern: new RegExp(`^\\+${NUM} Resistance to All Elements`, 'i') },
+  { kind: 'resist', pattern: new RegExp(`^\\+${NUM} ${ELEMENT} Resistance`, 'i'), elementGroup: 2 },
+  { kind: 'lifePercent', pattern: new RegExp(`^\\+${NUM}% Life$`, 'i'), isPercent: true },
+  { kind: 'blockChance', pattern: new RegExp(`^\\+?${NUM}% Chance to Block`, 'i'), isPercent: true },
+  { kind: 'eliteDamageReduction', pattern: new RegExp(`Reduces damage from elites by ${NUM}%`, 'i'), isPercent: true },
+  { kind: 'meleeDamageReduction', pattern: new RegExp(`Reduces damage from melee attacks by ${NUM}%`, 'i'), isPercent: true },
+  { kind: 'rangedDamageReduction', pattern: new RegExp(`Reduces damage from ranged attacks by ${NUM}%`, 'i'), isPercent: true },
+  { kind: 'thorns', pattern: new RegExp(`Melee attackers take ${NUM} damage per hit`, 'i') },
+
+  // Sustain
+  { kind: 'lifePerHit', pattern: new RegExp(`^\\+${NUM} Life per Hit`, 'i') },
+  { kind: 'lifePerSecond', pattern: new RegExp(`Regenerates ${NUM} Life per Second`, 'i') },
+  { kind: 'lifePerKill', pattern: new RegExp(`^\\+${NUM} Life after each Kill`, 'i') },
+  { kind: 'healthGlobeBonus', pattern: new RegExp(`Health Globes and Potions Grant \\+${NUM} Life`, 'i') },
+
+  // Resources
+  { kind: 'maxResource', pattern: new RegExp(`^\\+${NUM} Maximum `, 'i') },
+  { kind: 'resourceRegen', pattern: new RegExp(`Regeneration by ${NUM} per Second`, 'i') },
+
+  // Utility
+  { kind: 'movementSpeed', pattern: new RegExp(`^\\+${NUM}% Movement Speed`, 'i'), isPercent: true },
+  { kind: 'pickupRadius', pattern: new RegExp(`pickup by ${NUM} yards`, 'i') },
+  { kind: 'experience', pattern: new RegExp(`Monster kills grant \\+${NUM} experience`, 'i') },
+  { kind: 'socket', pattern: /^Empty Sockets?/i }
+]
+
+/**
+ * Guide stat priority wording mapped to affix kinds, checked in order.
+ * Covers both spelled-out names and common shorthand (CHC, CDR, IAS...).
+ */
+const STAT_PRIORITY_RULES: Array<{ pattern: RegExp; kinds: AffixKind[] }> = [
+  { pattern: /\b(main ?stat|primary stat)\b/i, kinds: ['strength', 'dexterity', 'intelligence'] },
+  { pattern: /\bstrength\b|\bstr\b/i, kinds: ['strength'] },
+  { pattern: /\bdexterity\b|\bdex\b/i, kinds: ['dexterity'] },
+  { pattern: /\bintelligence\b|\bint\b/i, kinds: ['intelligence'] },
+  { pattern: /\bvitality\b|\bvit\b/i, kinds: ['vitality'] },
+  { pattern: /crit(ical)?( hit)? chance|\bchc\b|\bcc\b/i, kinds: ['critChance'] },
+  { pattern: /crit(ical)?( hit)? damage|\bchd\b/i, kinds: ['critDamage'] },
+  { pattern: /attack speed|\bias\b/i, kinds: ['attackSpeed'] },
+  { pattern: /cooldown|\bcdr\b/i, kinds: ['cooldownReduction'] },
+  { pattern: /resource cost|\brcr\b/i, kinds: ['resourceCostReduction'] },
+  { pattern: /area damage|\bad\b/i, kinds: ['areaDamage'] },
+  { pattern: /elite damage reduction|damage from elites/i, kinds: ['eliteDamageReduction'] },
+  { pattern: /melee damage reduction|damage from melee/i, kinds: ['meleeDamageReduction'] },
+  { pattern: /ranged damage reduction|damage from ranged/i, kinds: ['rangedDamageReduction'] },
+  // Before the element and damage rules, which would otherwise claim it
+  { pattern: /damage reduction|\bdr\b/i, kinds: ['meleeDamageReduction', 'rangedDamageReduction'] },
+  { pattern: /elite/i, kinds: ['eliteDamage'] },
+  { pattern: /socket/i, kinds: ['socket'] },
+  { pattern: /all res|resist(ance)? all|\bar\b/i, kinds: ['allResist'] },
+  // Before the element rule, which would otherwise claim it
+  { pattern: /(physical|fire|cold|lightning|poison|arcane) resist(ance)?/i, kinds: ['resist'] },
+  { pattern: /life per hit|\bloh\b/i, kinds: ['lifePerHit'] },
+  { pattern: /life per second|\blps\b|regen/i, kinds: ['lifePerSecond'] },
+  { pattern: /life ?%|% ?life|\blife\b/i, kinds: ['lifePercent'] },
+  { pattern: /movement speed|\bms\b/i, kinds: ['movementSpeed'] },
+  { pattern: /\barmor\b/i, kinds: ['armor'] },
+  { pattern: /block/i, kinds: ['blockChance'] },
+  { pattern: /physical|fire|cold|lightning|poison|arcane|holy|elemental/i, kinds: ['elementalDamage'] },
+  { pattern: /^\+?\s*%?\s*damage$|damage ?%|% ?damage/i, kinds: ['damagePercent'] },
+  { pattern: /damage/i, kinds: ['skillDamage'] }
+]
+
+/**
+ * Known non-ancient roll ranges by affix kind, with per-slot overrides
+ */
+const AFFIX_ROLL_RANGES: Partial<Record<AffixKind, { default?: AffixRange; bySlot?: Record<string, AffixRange> }>> = {
+  critChance: {
+    default: { min: 4.5, max: 6 },
+    bySlot: {
+      hands: { min: 8, max: 10 },
+      neck: { min: 8, max: 10 },
+      offHand: { min: 8, max: 10 }
+    }
+  },
+  critDamage: {
+    default: { min: 25, max: 50 },
+    bySlot: { neck: { min: 51, max: 100 } }
+  },
+  attackSpeed: { default: { min: 5, max: 7 } },
+  cooldownReduction: {
+    default: { min: 5, max: 8 },
+    bySlot: {
+      mainHand: { min: 5, max: 10 },
+      offHand: { min: 5, max: 10 }
+    }
+  },
+  resourceCostReduction: { default: { min: 4, max: 8 } },
+  elementalDamage: { default: { min: 15, max: 20 } },
+  skillDamage: { default: { min: 10, max: 15 } },
+  areaDamage: { default: { min: 10, max: 20 } },
+  damagePercent: { bySlot: { mainHand: { min: 6, max: 10 } } },
+  lifePercent: {
+    default: { min: 10, max: 15 },
+    bySlot: { neck: { min: 14, max: 18 } }
+  },
+  allResist: { default: { min: 91, max: 100 } },
+  movementSpeed: { bySlot: { feet: { min: 10, max: 12 } } }
+}
+
+// Slots whose main stat rolls use the jewelry/one-handed ranges
+const JEWELRY_STAT_SLOTS = ['neck']
+const ONE_HANDED_STAT_SLOTS = ['mainHand', 'offHand']
+
+/**
+ * Main stat and Vitality roll ranges by slot group, for normal and ancient items.
+ * Primal items always roll the ancient maximum.
+ */
+const MAIN_STAT_RANGES: Record<'armor' | 'jewelry' | 'oneHanded' | 'twoHanded', Record<'normal' | 'ancient', AffixRange>> = {
+  armor: {
+    normal: { min: 416, max: 500 },
+    ancient: { min: 626, max: 750 }
+  },
+  jewelry: {
+    normal: { min: 626, max: 750 },
+    ancient: { min: 946, max: 1125 }
+  },
+  oneHanded: {
+    normal: { min: 626, max: 750 },
+    ancient: { min: 946, max: 1125 }
+  },
+  twoHanded: {
+    normal: { min: 833, max: 1000 },
+    ancient: { min: 1237, max: 1500 }
+  }
+}
+
+const MAIN_STAT_KINDS: AffixKind[] = ['strength', 'dexterity', 'intelligence', 'vitality']
+
+/**
+ * Parse a numeric string that may contain thousands separators
+ */
+function parseNumber(raw: string): number {
+  return Number(raw.replace(/,/g, ''))
+}
+
+/**
+ * Normalize an element name from affix text
+ */
+function toElement(raw?: string): DamageElement | undefined {
+  return raw ? (raw.toLowerCase() as DamageElement) : undefined
+}
+
+/**
+ * Look up the legal roll range for an affix on a slot
+ */
+export function getAffixRange(kind: AffixKind, slot?: string): AffixRange | undefined {
+  const ranges = AFFIX_ROLL_RANGES[kind]
+  if (!ranges) return undefined
+  return (slot && ranges.bySlot?.[slot]) || ranges.default
+}
+
+/**
+ * Look up the main stat roll ranges for a slot
+ */
+export function getMainStatRanges(slot: string, twoHanded = false): Record<'normal' | 'ancient', AffixRange> {
+  if (twoHanded) return MAIN_STAT_RANGES.twoHanded
+  if (JEWELRY_STAT_SLOTS.includes(slot)) return MAIN_STAT_RANGES.jewelry
+  if (ONE_HANDED_STAT_SLOTS.includes(slot)) return MAIN_STAT_RANGES.oneHanded
+  return MAIN_STAT_RANGES.armor
+}
+
+/**
+ * Detect whether an item is Ancient or Primal Ancient.
+ *
+ * The type line reads "Ancient Legendary ..." / "Primal Ancient Legendary ..." when
+ * the API provides it; otherwise a main stat or Vitality roll above the normal
+ * maximum for the slot marks the item as ancient, and a perfect roll on the main
+ * stat and every other ranged affix marks it as primal.
+ */
+export function detectAncientRank(
+  itemData: ItemApiResponse,
+  slot: string,
+  affixes: ParsedAffix[]
+): AncientRank {
+  const typeName = (itemData.typeName || '').toLowerCase()
+  if (typeName.includes('primal')) return 'primal'
+  if (typeName.includes('ancient')) return 'ancient'
+
+  // Only legendary and set items can be ancient
+  if (itemData.displayColor !== 'orange' && itemData.displayColor !== 'green') {
+    return 'normal'
+  }
+
+  const ranges = getMainStatRanges(slot, itemData.type?.twoHanded)
+  const statRolls = affixes
+    .filter(a => MAIN_STAT_KINDS.includes(a.kind) && a.value !== undefined)
+    .map(a => a.value!)
+
+  if (statRolls.length === 0) return 'normal'
+
+  const highest = Math.max(...statRolls)
+  if (highest <= ranges.normal.max) return 'normal'
+
+  // Primals roll every affix at its maximum
+  const allMaxed = highest >= ranges.ancient.max && affixes.every(a =>
+    !a.range || a.value === undefined || a.value >= a.range.max
+  )
+  return allMaxed ? 'primal' : 'ancient'
+}
+
+/**
+ * Parse affix display text into a structured affix
+ */
+export function parseAffixText(text: string, slot?: string, enchanted = false): ParsedAffix {
+  const trimmed = text.trim()
+
+  for (const rule of AFFIX_RULES) {
+    const match = trimmed.match(rule.pattern)
+    if (!match) continue
+
+    const values = match
+      .slice(1)
+      .filter((group, index) =>
+        group !== undefined &&
+        index + 1 !== rule.elementGroup &&
+        index + 1 !== rule.skillGroup
+      )
+      .map(parseNumber)
+      .filter(n => !Number.isNaN(n))
+
+    return {
+      text: trimmed,
+      kind: rule.kind,
+      value: values[0],
+      values,
+      isPercent: rule.isPercent ?? false,
+      element: rule.elementGroup ? toElement(match[rule.elementGroup]) : undefined,
+      skill: rule.skillGroup ? match[rule.skillGroup].trim() : undefined,
+      range: getAffixRange(rule.kind, slot),
+      enchanted
+    }
+  }
+
+  // Unknown affix - keep any numbers we can find
+  const values = (trimmed.match(/\d[\d,]*(?:\.\d+)?/g) || [])
+    .map(parseNumber)
+    .filter(n => !Number.isNaN(n))
+
+  return {
+    text: trimmed,
+    kind: 'other',
+    value: values[0],
+    values,
+    isPercent: trimmed.includes('%'),
+    enchanted
+  }
+}
+
+/**
+ * Parse an API attribute into a structured affix
+ */
+export function parseAffix(attr: AttributeApiResponse, slot?: string): ParsedAffix {
+  const text = (attr.text || attr.textHtml || '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\s+/g, ' ')
+  return parseAffixText(text, slot, attr.affixType === 'enchant')
+}
+
+/**
+ * Get all affixes (primary and secondary) on an item
+ */
+export function getItemAffixes(item: Item): ParsedAffix[] {
+  return [...(item.primaryAffixes || []), ...(item.secondaryAffixes || [])]
+}
+
+/**
+ * Sum the primary value of every affix of a kind across items
+ */
+export function sumAffixValues(items: Item[], kind: AffixKind): number {
+  let total = 0
+  for (const item of items) {
+    for (const affix of getItemAffixes(item)) {
+      if (affix.kind === kind && affix.value !== undefined) {
+        total += affix.value
+      }
+    }
+  }
+  return total
+}
+
+/**
+ * Map a guide stat priority ("CHC", "Cooldown Reduction", "Bone Spear Damage")
+ * to the affix kinds that satisfy it
+ */
+export function getPriorityAffixKinds(priority: string): AffixKind[] {
+  const text = priority.trim()
+  return STAT_PRIORITY_RULES.find(rule => rule.pattern.test(text))?.kinds ?? []
+}
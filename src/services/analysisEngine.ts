@@ -8,8 +8,23 @@
  * @copyright (c) 2025 drsii. All rights reserved.
  */
 
-import type { Hero, Item } from '@/types/hero'
+import type { AncientRank, CubePowers, Follower, Hero, Item } from '@/types/hero'
+import { FOLLOWER_SLOTS, SLOT_NAMES } from '@/types/hero'
 import { SLOT_ITEM_TYPES } from '@/types/item'
+import type { MaxrollGearSlot, TargetBuild } from '@/types/maxroll'
+import { CUBE_SLOTS, CUBE_SLOT_NAMES } from '@/types/cube'
+import { getItemAffixes, getPriorityAffixKinds } from './affixParser'
+import { cubePlanner } from './cubePlanner'
+import type { SetPiece } from '@/data/d3Reference'
+import {
+  FOLLOWER_RELICS,
+  getActiveSetBonuses,
+  getEffectivePieces,
+  getMissingSetPieces,
+  getSetCatalogEntry,
+  getSetThresholds,
+  hasRingOfRoyalGrandeur
+} from '@/data/d3Reference'
 
 export interface GearAnalysis {
   heroId: number
@@ -19,43 +34,107 @@ export interface GearAnalysis {
   missingSlots: string[]
   setAnalysis: SetAnalysis[]
   suggestions: Suggestion[]
+  /** Build the gear was scored against, when one was chosen */
+  targetBuild?: string
 }
 
 export interface SlotAnalysis {
   slot: string
   item: Item | null
   quality: string
+  ancientRank: AncientRank
   hasLegendaryPower: boolean
   gemCount: number
   hasLegendaryGem: boolean
   score: number
+  /** Whether the item is the target build's pick for this slot */
+  buildMatch?: BuildMatch
+  /** Target build's primary item for this slot */
+  targetItem?: string
+  /** Weighted share of the slot's stat priorities the item rolls (0-1) */
+  affixMatch?: number
+  matchedStats?: string[]
+  missingStats?: string[]
 }
 
+export type BuildMatch = 'primary' | 'alternative' | 'off-build'
+
 export interface SetAnalysis {
   setName: string
   piecesEquipped: number
+  /** Pieces counted toward bonuses, including Ring of Royal Grandeur */
+  effectivePieces: number
+  /** Piece count of the set's highest bonus */
+  maxBonusPieces: number
   activeBonuses: string[]
+  /** Piece count of the next bonus not yet active */
+  nextBonusAt?: number
+  /** Equipped pieces still needed for the next bonus */
+  piecesToNextBonus: number
+  /** Equipped pieces still needed for the highest bonus */
   missingPieces: number
+  /** Catalogued set items not currently equipped */
+  missingItems: SetPiece[]
 }
 
 export interface Suggestion {
-  type: 'upgrade' | 'gem' | 'set' | 'cube' | 'general'
+  type: 'upgrade' | 'gem' | 'set' | 'cube' | 'follower' | 'general'
   priority: 'high' | 'medium' | 'low'
   slot?: string
   message: string
 }
 
+// Guide slot labels by hero slot key; rings are interchangeable between fingers
+const GUIDE_SLOT_ALIASES: Record<string, string[]> = {
+  head: ['head', 'helm', 'helmet'],
+  shoulders: ['shoulders', 'shoulder', 'pauldrons'],
+  neck: ['neck', 'amulet'],
+  torso: ['torso', 'chest', 'body armor', 'chest armor'],
+  hands: ['hands', 'gloves', 'gauntlets'],
+  waist: ['waist', 'belt'],
+  wrists: ['wrists', 'bracers', 'bracer'],
+  legs: ['legs', 'pants'],
+  feet: ['feet', 'boots'],
+  leftFinger: ['leftfinger', 'ring', 'rings', 'left ring', 'ring 1'],
+  rightFinger: ['rightfinger', 'ring', 'rings', 'right ring', 'ring 2'],
+  mainHand: ['mainhand', 'main hand', 'main-hand', 'weapon'],
+  offHand: ['offhand', 'off hand', 'off-hand', 'source', 'shield', 'mojo', 'quiver', 'phylactery']
+}
+
+// Slots that share guide targets; each should be pointed at a different target
+const PAIRED_SLOTS: Record<string, string> = {
+  leftFinger: 'rightFinger',
+  rightFinger: 'leftFinger'
+}
+
+// Build-aware score weights (sum to 100)
+const BUILD_ITEM_WEIGHT = { primary: 50, alternative: 35, 'off-build': 10 }
+const BUILD_AFFIX_WEIGHT = 30
+const BUILD_ANCIENT_WEIGHT = { primal: 20, ancient: 15, normal: 0 }
+
+// Item type names of two-handed weapons, for items without the API's twoHanded flag
+const TWO_HANDED_TYPE_PATTERN = /two-handed|(?<!hand )crossbow|\bbow\b|polearm|staff|daibo/i
+
 class AnalysisEngine {
   /**
-   * Analyze a hero's complete gear setup
+   * Analyze a hero's complete gear setup, optionally scored against a target build
    */
-  analyzeHero(hero: Hero): GearAnalysis {
+  analyzeHero(hero: Hero, target?: TargetBuild | null): GearAnalysis {
     const slotAnalysis = this.analyzeSlots(hero.items)
     const missingSlots = this.findMissingSlots(hero.items)
-    const setAnalysis = this.analyzeSets(hero.items)
-    const suggestions = this.generateSuggestions(hero, slotAnalysis, setAnalysis, missingSlots)
+    const setAnalysis = this.analyzeSets(hero.items, hero.cubePowers)
+
+    const hasTarget = !!target && target.gear.length > 0
+    const targetSlots = hasTarget ? this.applyTargetBuild(slotAnalysis, target!) : []
 
-    const overallScore = this.calculateOverallScore(slotAnalysis)
+    const suggestions = this.generateSuggestions(hero, slotAnalysis, setAnalysis, missingSlots, target)
+
+    // With a target build the score means "how close to the finished build"
+    const overallScore = this.calculateOverallScore(
+      hasTarget
+        ? Object.fromEntries(targetSlots.map(slot => [slot, slotAnalysis[slot]]))
+        : slotAnalysis
+    )
 
     return {
       heroId: hero.heroId,
@@ -64,7 +143,8 @@ class AnalysisEngine {
       slotAnalysis,
       missingSlots,
       setAnalysis,
-      suggestions
+      suggestions,
+      targetBuild: hasTarget ? target!.buildName : undefined
     }
   }
 
@@ -83,6 +163,7 @@ class AnalysisEngine {
           slot,
           item: null,
           quality: 'empty',
+          ancientRank: 'normal',
           hasLegendaryPower: false,
           gemCount: 0,
           hasLegendaryGem: false,
@@ -95,8 +176,8 @@ class AnalysisEngine {
       const hasLegendaryGem = item.gems?.some(g => g.isLegendary) || false
 
       let score = 0
-      if (item.quality === 'set') score = 100
-      else if (item.quality === 'legendary') score = 80
+      if (item.quality === 'set') score = 80
+      else if (item.quality === 'legendary') score = 70
       else if (item.quality === 'rare') score = 40
       else if (item.quality === 'magic') score = 20
       else score = 10
@@ -104,6 +185,10 @@ class AnalysisEngine {
       // Bonus for legendary power
       if (item.legendaryPower) score += 10
 
+      // Bonus for ancient/primal rolls
+      if (item.ancientRank === 'primal') score += 20
+      else if (item.ancientRank === 'ancient') score += 10
+
       // Bonus for gems
       score += gemCount * 5
       if (hasLegendaryGem) score += 15
@@ -112,6 +197,7 @@ class AnalysisEngine {
         slot,
         item,
         quality: item.quality,
+        ancientRank: item.ancientRank,
         hasLegendaryPower: !!item.legendaryPower,
         gemCount,
         hasLegendaryGem,
@@ -122,6 +208,117 @@ class AnalysisEngine {
     return analysis
   }
 
+  /**
+   * Re-score slots the target build covers. Returns the covered slot keys.
+   */
+  private applyTargetBuild(slotAnalysis: Record<string, SlotAnalysis>, target: TargetBuild): string[] {
+    const targetsBySlot = new Map<string, MaxrollGearSlot[]>()
+    for (const gearSlot of target.gear) {
+      for (const slot of this.resolveGuideSlots(gearSlot.slot)) {
+        const existing = targetsBySlot.get(slot) || []
+        existing.push(gearSlot)
+        targetsBySlot.set(slot, existing)
+      }
+    }
+
+    // Targets each slot's current item already satisfies, so paired slots don't both claim one
+    const matchedBySlot = new Map<string, { target: MaxrollGearSlot; buildMatch: BuildMatch }>()
+    for (const [slot, targets] of targetsBySlot) {
+      const item = slotAnalysis[slot]?.item
+      if (!item) continue
+      const itemName = item.name.toLowerCase()
+      const primaryMatch = targets.find(t => t.primaryItem.toLowerCase() === itemName)
+      const altMatch = targets.find(t => t.alternatives?.some(a => a.toLowerCase() === itemName))
+      if (primaryMatch) matchedBySlot.set(slot, { target: primaryMatch, buildMatch: 'primary' })
+      else if (altMatch) matchedBySlot.set(slot, { target: altMatch, buildMatch: 'alternative' })
+    }
+
+    const assignedBySlot = new Map<string, MaxrollGearSlot>()
+    for (const [slot, targets] of targetsBySlot) {
+      const analysis = slotAnalysis[slot]
+      if (!analysis) continue
+
+      const match = matchedBySlot.get(slot)
+      const sibling = PAIRED_SLOTS[slot]
+      const siblingTarget = sibling
+        ? matchedBySlot.get(sibling)?.target ?? assignedBySlot.get(sibling)
+        : undefined
+      const primary = match?.target ?? targets.find(t => t !== siblingTarget) ?? targets[0]
+      assignedBySlot.set(slot, primary)
+      analysis.targetItem = primary.primaryItem
+
+      if (!analysis.item) {
+        analysis.buildMatch = 'off-build'
+        analysis.score = 0
+        continue
+      }
+
+      const buildMatch: BuildMatch = match?.buildMatch ?? 'off-build'
+
+      const priorities = primary.statPriorities.length > 0
+        ? primary.statPriorities
+        : target.statPriorities?.bySlot?.[slot] ?? target.statPriorities?.general ?? []
+      const affixes = this.matchStatPriorities(analysis.item, priorities)
+
+      // Off-build non-legendaries contribute nothing toward the build
+      const isLegendary = analysis.quality === 'legendary' || analysis.quality === 'set'
+      const itemScore = buildMatch === 'off-build' && !isLegendary ? 0 : BUILD_ITEM_WEIGHT[buildMatch]
+
+      analysis.buildMatch = buildMatch
+      analysis.affixMatch = affixes.match
+      analysis.matchedStats = affixes.matched
+      analysis.missingStats = affixes.missing
+      analysis.score = Math.min(100, Math.round(
+        itemScore +
+        affixes.match * BUILD_AFFIX_WEIGHT +
+        BUILD_ANCIENT_WEIGHT[analysis.ancientRank]
+      ))
+    }
+
+    return [...targetsBySlot.keys()].filter(slot => slotAnalysis[slot])
+  }
+
+  /**
+   * Map a guide slot label ("Helm", "Ring", "Source") to hero slot keys
+   */
+  private resolveGuideSlots(label: string): string[] {
+    const normalized = label.trim().toLowerCase()
+    return Object.entries(GUIDE_SLOT_ALIASES)
+      .filter(([slot, aliases]) => slot.toLowerCase() === normalized || aliases.includes(normalized))
+      .map(([slot]) => slot)
+  }
+
+  /**
+   * Weighted share of stat priorities an item rolls. Earlier priorities weigh more;
+   * an empty priority list counts as a full match.
+   */
+  private matchStatPriorities(
+    item: Item,
+    priorities: string[]
+  ): { match: number; matched: string[]; missing: string[] } {
+    const known = priorities.filter(p => getPriorityAffixKinds(p).length > 0)
+    if (known.length === 0) return { match: 1, matched: [], missing: [] }
+
+    const kinds = new Set(getItemAffixes(item).map(a => a.kind))
+    const matched: string[] = []
+    const missing: string[] = []
+    let earned = 0
+    let total = 0
+
+    known.forEach((priority, index) => {
+      const weight = known.length - index
+      total += weight
+      if (getPriorityAffixKinds(priority).some(kind => kinds.has(kind))) {
+        earned += weight
+        matched.push(priority)
+      } else {
+        missing.push(priority)
+      }
+    })
+
+    return { match: earned / total, matched, missing }
+  }
+
   /**
    * Find empty gear slots
    */
@@ -131,9 +328,9 @@ class AnalysisEngine {
   }
 
   /**
-   * Analyze equipped sets
+   * Analyze equipped sets against the set catalog's thresholds
    */
-  private analyzeSets(items: Record<string, Item>): SetAnalysis[] {
+  private analyzeSets(items: Record<string, Item>, cubePowers?: CubePowers): SetAnalysis[] {
     const setCounts = new Map<string, { count: number; items: Item[] }>()
 
     for (const item of Object.values(items)) {
@@ -145,30 +342,47 @@ class AnalysisEngine {
       }
     }
 
+    const hasRoRG = hasRingOfRoyalGrandeur(items, cubePowers)
     const analysis: SetAnalysis[] = []
 
     for (const [setName, data] of setCounts) {
-      // Standard set bonuses are at 2, 4, 6 pieces
-      const bonuses: string[] = []
-      if (data.count >= 2) bonuses.push('2-piece bonus active')
-      if (data.count >= 4) bonuses.push('4-piece bonus active')
-      if (data.count >= 6) bonuses.push('6-piece bonus active')
+      const entry = getSetCatalogEntry(setName)
+      // Uncatalogued sets fall back to the standard 2/4/6 class set layout
+      const thresholds = entry ? getSetThresholds(entry) : [2, 4, 6]
+      const maxBonusPieces = thresholds[thresholds.length - 1]
+      const effectivePieces = getEffectivePieces(data.count, hasRoRG)
+
+      const activeBonuses = entry
+        ? getActiveSetBonuses(entry.name, data.count, hasRoRG).map(b => `${b.pieces}-piece: ${b.bonus}`)
+        : thresholds.filter(t => t <= effectivePieces).map(t => `${t}-piece bonus active`)
 
-      // Most sets have 6 pieces
-      const maxPieces = 6
-      const missingPieces = Math.max(0, maxPieces - data.count)
+      const nextBonusAt = thresholds.find(t => t > effectivePieces)
 
       analysis.push({
         setName,
         piecesEquipped: data.count,
-        activeBonuses: bonuses,
-        missingPieces
+        effectivePieces,
+        maxBonusPieces,
+        activeBonuses,
+        nextBonusAt,
+        piecesToNextBonus: nextBonusAt ? this.piecesNeeded(nextBonusAt, data.count, hasRoRG) : 0,
+        missingPieces: this.piecesNeeded(maxBonusPieces, data.count, hasRoRG),
+        missingItems: entry ? getMissingSetPieces(entry, data.items.map(i => i.name)) : []
       })
     }
 
     return analysis.sort((a, b) => b.piecesEquipped - a.piecesEquipped)
   }
 
+  /**
+   * Equipped pieces still needed to reach a bonus threshold
+   * RoRG lowers every threshold by 1, but never below 2
+   */
+  private piecesNeeded(threshold: number, equipped: number, hasRoRG: boolean): number {
+    const required = hasRoRG && threshold > 2 ? threshold - 1 : threshold
+    return Math.max(0, required - equipped)
+  }
+
   /**
    * Generate upgrade suggestions
    */
@@ -176,7 +390,8 @@ class AnalysisEngine {
     hero: Hero,
     slotAnalysis: Record<string, SlotAnalysis>,
     setAnalysis: SetAnalysis[],
-    missingSlots: string[]
+    missingSlots: string[],
+    target?: TargetBuild | null
   ): Suggestion[] {
     const suggestions: Suggestion[] = []
 
@@ -202,6 +417,47 @@ class AnalysisEngine {
       }
     }
 
+    // Check slots against the target build
+    for (const [slot, analysis] of Object.entries(slotAnalysis)) {
+      if (!analysis.item || !analysis.buildMatch) continue
+      const slotName = SLOT_NAMES[slot] || slot
+
+      if (analysis.buildMatch === 'off-build' && (analysis.quality === 'legendary' || analysis.quality === 'set')) {
+        suggestions.push({
+          type: 'upgrade',
+          priority: 'high',
+          slot,
+          message: `${slotName}: Replace ${analysis.item.name} with ${analysis.targetItem} for the target build.`
+        })
+      } else if (analysis.buildMatch === 'alternative') {
+        suggestions.push({
+          type: 'upgrade',
+          priority: 'low',
+          slot,
+          message: `${slotName}: ${analysis.item.name} works, but ${analysis.targetItem} is the build's first choice.`
+        })
+      } else if (analysis.buildMatch === 'primary' && analysis.missingStats?.length) {
+        suggestions.push({
+          type: 'upgrade',
+          priority: analysis.missingStats.length > 1 ? 'medium' : 'low',
+          slot,
+          message: `${slotName}: ${analysis.item.name} is missing ${analysis.missingStats.join(', ')}. Reroll or replace it.`
+        })
+      }
+    }
+
+    // Check for a non-ancient weapon
+    const weapon = slotAnalysis.mainHand
+    if (weapon?.item && weapon.ancientRank === 'normal' &&
+      (weapon.quality === 'legendary' || weapon.quality === 'set')) {
+      suggestions.push({
+        type: 'upgrade',
+        priority: 'low',
+        slot: 'mainHand',
+        message: `${weapon.item.name}: Reforge in Kanai's Cube for an ancient version.`
+      })
+    }
+
     // Check for missing legendary gems
     const jewelrySlots = ['neck', 'leftFinger', 'rightFinger']
     for (const slot of jewelrySlots) {
@@ -216,44 +472,138 @@ class AnalysisEngine {
       }
     }
 
-    // Check for incomplete sets close to bonus threshold
+    // Check for incomplete sets one piece away from a bonus threshold
+    const hasRoRG = hasRingOfRoyalGrandeur(hero.items, hero.cubePowers)
     for (const set of setAnalysis) {
-      if (set.piecesEquipped === 1 || set.piecesEquipped === 3 || set.piecesEquipped === 5) {
-        const nextBonus = set.piecesEquipped + 1
+      if (!set.nextBonusAt || set.piecesToNextBonus !== 1) continue
+
+      if (set.missingItems.length > 0) {
+        const missing = set.missingItems
+          .map(piece => `${piece.name} (${SLOT_NAMES[piece.slot] || piece.slot})`)
+          .join(', ')
         suggestions.push({
           type: 'set',
           priority: 'medium',
-          message: `${set.setName}: Add 1 more piece for the ${nextBonus}-piece bonus.`
+          message: `${set.setName}: Add 1 more piece for the ${set.nextBonusAt}-piece bonus. Missing: ${missing}.`
+        })
+      } else if (!hasRoRG && getSetCatalogEntry(set.setName)?.pieces.length) {
+        // Every catalogued piece is already equipped
+        suggestions.push({
+          type: 'set',
+          priority: 'medium',
+          message: `${set.setName}: Equip or cube Ring of Royal Grandeur for the ${set.nextBonusAt}-piece bonus.`
+        })
+      } else {
+        suggestions.push({
+          type: 'set',
+          priority: 'medium',
+          message: `${set.setName}: Add 1 more piece for the ${set.nextBonusAt}-piece bonus.`
         })
       }
     }
 
     // Check Kanai's Cube
-    if (!hero.cubePowers?.weapon) {
+    suggestions.push(...this.analyzeCube(hero, target))
+
+    // Check follower gear
+    suggestions.push(...this.analyzeFollowers(hero.followers || []))
+
+    // Sort by priority
+    const priorityOrder = { high: 0, medium: 1, low: 2 }
+    return suggestions.sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority])
+  }
+
+  /**
+   * Flag cube powers that are also equipped and name a power for each empty cube slot
+   */
+  private analyzeCube(hero: Hero, target?: TargetBuild | null): Suggestion[] {
+    const suggestions: Suggestion[] = []
+    const plan = cubePlanner.plan(hero, target)
+
+    for (const conflict of plan.conflicts) {
+      const replacement = plan.best[conflict.slot]
       suggestions.push({
         type: 'cube',
-        priority: 'medium',
-        message: "Kanai's Cube: Extract a weapon power."
+        priority: 'high',
+        message: `Kanai's Cube: ${conflict.power} is both equipped (${SLOT_NAMES[conflict.equippedSlot] || conflict.equippedSlot}) and cubed, so one copy does nothing. ` +
+          (replacement ? `Cube ${replacement.power} instead.` : 'Cube a different power.')
       })
     }
-    if (!hero.cubePowers?.armor) {
+
+    for (const slot of CUBE_SLOTS) {
+      if (hero.cubePowers?.[slot]) continue
+      const best = plan.best[slot]
+      const kind = CUBE_SLOT_NAMES[slot].toLowerCase()
       suggestions.push({
         type: 'cube',
         priority: 'medium',
-        message: "Kanai's Cube: Extract an armor power."
+        message: best
+          ? `Kanai's Cube: Extract a ${kind} power, e.g. ${best.power} (${best.detail}).`
+          : `Kanai's Cube: Extract a ${kind} power.`
       })
     }
-    if (!hero.cubePowers?.jewelry) {
-      suggestions.push({
-        type: 'cube',
-        priority: 'medium',
-        message: "Kanai's Cube: Extract a jewelry power."
-      })
+
+    return suggestions
+  }
+
+  /**
+   * Check geared followers for the usual speed-farming setup
+   */
+  private analyzeFollowers(followers: Follower[]): Suggestion[] {
+    const suggestions: Suggestion[] = []
+    const geared = followers.filter(f => Object.keys(f.items).length > 0)
+
+    for (const follower of geared) {
+      const relic = FOLLOWER_RELICS[follower.type]
+      const token = follower.items.special
+      if (relic && token?.name !== relic) {
+        suggestions.push({
+          type: 'follower',
+          priority: 'medium',
+          message: `${follower.name}: Equip ${relic} in the token slot so your follower cannot die.`
+        })
+      }
+
+      const items = Object.values(follower.items)
+
+      if (!items.some(item => item.name === 'Oculus Ring')) {
+        suggestions.push({
+          type: 'follower',
+          priority: 'low',
+          message: `${follower.name}: Equip an Oculus Ring for damage-boosting circles.`
+        })
+      }
+
+      const hasEnforcer = items.some(item => item.gems.some(g => g.name === 'Enforcer'))
+      if (!hasEnforcer) {
+        suggestions.push({
+          type: 'follower',
+          priority: 'low',
+          message: `${follower.name}: Socket Enforcer in the follower's jewelry.`
+        })
+      }
+
+      for (const slot of FOLLOWER_SLOTS) {
+        // A two-handed weapon leaves the off-hand empty by design
+        if (slot === 'offHand' && this.isTwoHanded(follower.items.mainHand)) continue
+        if (!follower.items[slot]) {
+          suggestions.push({
+            type: 'follower',
+            priority: 'low',
+            slot,
+            message: `${follower.name}: Empty slot: ${SLOT_NAMES[slot] || slot}.`
+          })
+        }
+      }
     }
 
-    // Sort by priority
-    const priorityOrder = { high: 0, medium: 1, low: 2 }
-    return suggestions.sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority])
+    return suggestions
+  }
+
+  private isTwoHanded(item?: Item): boolean {
+    if (!item) return false
+    if (item.twoHanded !== undefined) return item.twoHanded
+    return TWO_HANDED_TYPE_PATTERN.test(item.itemType)
   }
 
   /**
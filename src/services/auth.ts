@@ -9,7 +9,10 @@
  */
 
 import { useSettingsStore } from '@/stores/settings'
-import type { TokenResponse } from '@/types'
+import { useVaultStore } from '@/stores/vault'
+import { proxyHeaders } from './proxySigning'
+import { VaultLockedError } from './battlenet'
+import type { HealthResponse, ProxyCapabilities, TokenResponse } from '@/types'
 
 export class AuthenticationError extends Error {
   constructor(message: string) {
@@ -27,9 +30,18 @@ export interface AuthState {
 // Token refresh buffer (5 minutes before expiry)
 const REFRESH_BUFFER = 300
 
+/**
+ * Whether a proxy error response is a missing, stale or wrong request signature
+ */
+export function isSignatureError(status: number, body: { error?: unknown }): boolean {
+  return status === 401 && typeof body.error === 'string' && body.error.toLowerCase().includes('signature')
+}
+
 class AuthService {
   private token: string | null = null
   private tokenExpiry = 0
+  // Capabilities per proxy URL, probed once per session
+  private capabilities = new Map<string, ProxyCapabilities>()
 
   /**
    * Get a valid access token, refreshing if necessary
@@ -56,8 +68,15 @@ class AuthService {
    */
   async requestToken(): Promise<string> {
     const settings = useSettingsStore()
+    const clientSecret = useVaultStore().readSecret('clientSecret')
+
+    if (clientSecret === null) {
+      throw new AuthenticationError(
+        'Your credentials are locked. Unlock the vault with your passphrase to connect.'
+      )
+    }
 
-    if (!settings.clientId || !settings.clientSecret) {
+    if (!settings.clientId || !clientSecret) {
       throw new AuthenticationError(
         'Missing credentials. Please configure your Battle.net Client ID and Secret in Settings.'
       )
@@ -71,20 +90,25 @@ class AuthService {
 
     try {
       const baseUrl = settings.proxyUrl.replace(/\/+$/, '')
+      const body = JSON.stringify({
+        clientId: settings.clientId,
+        clientSecret
+      })
       const response = await fetch(`${baseUrl}/api/token`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          clientId: settings.clientId,
-          clientSecret: settings.clientSecret
-        })
+        headers: await proxyHeaders('/api/token', body),
+        body
       })
 
       if (!response.ok) {
         const error = await response.json().catch(() => ({}))
 
+        if (isSignatureError(response.status, error)) {
+          throw new AuthenticationError(
+            `The proxy rejected the request: ${error.error}. Check the request signing key in Settings.`
+          )
+        }
+
         if (response.status === 401) {
           throw new AuthenticationError(
             'Invalid credentials. Please check your Client ID and Secret.'
@@ -107,6 +131,10 @@ class AuthService {
         throw error
       }
 
+      if (error instanceof VaultLockedError) {
+        throw new AuthenticationError(error.message)
+      }
+
       if (error instanceof TypeError && error.message.includes('fetch')) {
         throw new AuthenticationError(
           'Failed to connect to the OAuth proxy. Please check the proxy URL and ensure it\'s deployed.'
@@ -119,6 +147,34 @@ class AuthService {
     }
   }
 
+  /**
+   * Ask the proxy which optional features it supports.
+   * Returns null when the proxy can't be reached.
+   */
+  async getCapabilities(proxyUrl?: string): Promise<ProxyCapabilities | null> {
+    const baseUrl = (proxyUrl ?? useSettingsStore().proxyUrl).replace(/\/+$/, '')
+    if (!baseUrl) return null
+
+    const cached = this.capabilities.get(baseUrl)
+    if (cached) return cached
+
+    try {
+      const response = await fetch(`${baseUrl}/health`)
+      if (!response.ok) return null
+      const data: HealthResponse = await response.json()
+      // Workers predating capability flags only support client credentials
+      const capabilities: ProxyCapabilities = {
+        serverCredentials: data.capabilities?.serverCredentials ?? false,
+        requestSigning: data.capabilities?.requestSigning ?? false,
+        batchRequests: data.capabilities?.batchRequests ?? false
+      }
+      this.capabilities.set(baseUrl, capabilities)
+      return capabilities
+    } catch {
+      return null
+    }
+  }
+
   /**
    * Invalidate the cached token
    */
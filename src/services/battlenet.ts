@@ -11,18 +11,45 @@
 import { useSettingsStore } from '@/stores/settings'
 import { useAuthStore } from '@/stores/auth'
 import type {
+  Follower,
+  FollowerType,
+  FullHeroesResult,
   Hero,
+  HeroRef,
+  HeroStats,
   HeroSummary,
   Item,
   Gem,
   ItemQuality
 } from '@/types/hero'
+import { FOLLOWER_NAMES } from '@/types/hero'
 import type {
+  AccountRef,
   ProfileResponse,
   HeroApiResponse,
   HeroDetailResponse,
-  HeroItemsResponse
+  HeroItemsResponse,
+  ItemApiResponse,
+  FollowerResponse,
+  SkillSlotResponse,
+  SeasonIndexResponse,
+  EraIndexResponse,
+  LeaderboardResponse,
+  LeaderboardDataResponse,
+  RequestOptions,
+  BatchProxyResult,
+  BatchProxyResponse
 } from '@/types/api'
+import type {
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardIndex,
+  LeaderboardScope
+} from '@/types/leaderboard'
+import { LEADERBOARD_CLASS_IDS } from '@/types/leaderboard'
+import { parseAffix, detectAncientRank } from './affixParser'
+import { proxyHeaders } from './proxySigning'
+import { authService, isSignatureError } from './auth'
 
 export class APIError extends Error {
   constructor(
@@ -53,6 +80,13 @@ export class HeroNotFoundError extends APIError {
   }
 }
 
+export class VaultLockedError extends APIError {
+  constructor() {
+    super('The proxy signing key is locked. Unlock the vault with your passphrase to continue.', 423)
+    this.name = 'VaultLockedError'
+  }
+}
+
 // Class name mappings
 const classNames: Record<string, string> = {
   barbarian: 'Barbarian',
@@ -78,7 +112,8 @@ const slotNames: Record<string, string> = {
   leftFinger: 'Left Ring',
   rightFinger: 'Right Ring',
   mainHand: 'Main Hand',
-  offHand: 'Off Hand'
+  offHand: 'Off Hand',
+  special: 'Token'
 }
 
 // Map API slot names to internal slot keys
@@ -87,57 +122,194 @@ const slotKeyMap: Record<string, string> = {
   bracers: 'wrists'
 }
 
+/**
+ * Stable key for an account, for caches keyed per account
+ */
+export function accountKey(account: AccountRef): string {
+  return `${account.region}:${account.battletag.toLowerCase()}`
+}
+
+/**
+ * Serialize an account into route query params
+ */
+export function accountToQuery(account: AccountRef, suffix = ''): Record<string, string> {
+  return {
+    [`battletag${suffix}`]: account.battletag.replace('#', '-'),
+    [`region${suffix}`]: account.region
+  }
+}
+
+/**
+ * Read an account back out of route query params
+ */
+export function accountFromQuery(
+  query: Record<string, unknown>,
+  suffix = ''
+): AccountRef | undefined {
+  const battletag = query[`battletag${suffix}`]
+  const region = query[`region${suffix}`]
+  if (typeof battletag !== 'string' || !battletag) return undefined
+
+  const regions: AccountRef['region'][] = ['us', 'eu', 'kr', 'tw']
+  return {
+    battletag: battletag.replace('-', '#'),
+    region: regions.includes(region as AccountRef['region'])
+      ? (region as AccountRef['region'])
+      : 'us'
+  }
+}
+
+// Error body the proxy returns for failed requests
+interface ProxyErrorBody {
+  error?: string
+  details?: { code?: string | number }
+}
+
+// Heroes per /api/batch request (the worker accepts 24 endpoints, two per hero)
+const MAX_BATCH_HEROES = 12
+
+// Automatic retries after a 429, and the longest Retry-After worth waiting out
+const MAX_RATE_LIMIT_RETRIES = 2
+const MAX_RETRY_AFTER_SECONDS = 30
+
+// The same for waitForRateLimit requests, which sit out whole rate limit windows
+const BACKGROUND_RATE_LIMIT_RETRIES = 6
+const BACKGROUND_MAX_RETRY_AFTER_SECONDS = 120
+
+/**
+ * Seconds to wait from a Retry-After header (delta-seconds or HTTP date)
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - Date.now()) / 1000))
+}
+
 class BattleNetService {
   /**
-   * Make an authenticated API request via the proxy
+   * Make an authenticated API request via the proxy.
+   * Responses may come from the proxy's edge cache unless forceRefresh is set.
+   */
+  private async request<T>(
+    endpoint: string,
+    region?: AccountRef['region'],
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const response = await this.post('/api/proxy', { region: region ?? useSettingsStore().region, endpoint }, options)
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw this.toAPIError(response.status, error, endpoint, response.headers.get('Retry-After'))
+    }
+
+    return response.json()
+  }
+
+  /**
+   * Fetch several endpoints in one proxy round trip. Results come back in order,
+   * each with its own status.
    */
-  private async request<T>(endpoint: string): Promise<T> {
+  private async batchRequest(
+    endpoints: string[],
+    region?: AccountRef['region'],
+    options: RequestOptions = {}
+  ): Promise<BatchProxyResult[]> {
+    const response = await this.post('/api/batch', { region: region ?? useSettingsStore().region, endpoints }, options)
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw this.toAPIError(response.status, error, '/api/batch', response.headers.get('Retry-After'))
+    }
+
+    const data: BatchProxyResponse = await response.json()
+    return data.results
+  }
+
+  /**
+   * POST a signed request to the proxy with the access token attached.
+   * Rate-limited requests are retried after the proxy's Retry-After delay;
+   * waitForRateLimit allows more and longer waits.
+   */
+  private async post(path: string, payload: Record<string, unknown>, options: RequestOptions): Promise<Response> {
     const settings = useSettingsStore()
     const auth = useAuthStore()
 
-    const token = await auth.getValidToken()
+    const token = await auth.getProxyToken()
     const baseUrl = settings.proxyUrl.replace(/\/+$/, '')
+    const body = JSON.stringify({
+      ...(token ? { token } : {}),
+      ...payload,
+      ...(options.forceRefresh ? { forceRefresh: true } : {})
+    })
 
-    const response = await fetch(`${baseUrl}/api/proxy`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        token,
-        region: settings.region,
-        endpoint
+    const maxRetries = options.waitForRateLimit ? BACKGROUND_RATE_LIMIT_RETRIES : MAX_RATE_LIMIT_RETRIES
+    const maxRetryAfter = options.waitForRateLimit ? BACKGROUND_MAX_RETRY_AFTER_SECONDS : MAX_RETRY_AFTER_SECONDS
+
+    let response: Response
+    for (let attempt = 0; ; attempt++) {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: await proxyHeaders(path, body),
+        body
       })
-    })
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({}))
+      if (response.status !== 429 || attempt >= maxRetries) break
 
-      if (response.status === 401) {
-        auth.logout()
-        throw new APIError('Authentication expired. Please re-authenticate.')
-      }
+      // Without a hint, back off exponentially (1s, 2s, ...)
+      const wait = parseRetryAfter(response.headers.get('Retry-After')) ?? 2 ** attempt
+      if (wait > maxRetryAfter) break
+      await new Promise(resolve => setTimeout(resolve, wait * 1000))
+    }
 
-      if (response.status === 403) {
-        throw new ProfilePrivateError()
-      }
+    return response
+  }
 
-      if (response.status === 404) {
-        const code = error?.details?.code || ''
-        if (code.toString().toUpperCase().includes('NOTFOUND')) {
-          throw new HeroNotFoundError()
-        }
-        throw new APIError(`Resource not found: ${endpoint}`, 404)
-      }
+  /**
+   * Map a failed proxy response to the error shown to the user
+   */
+  private toAPIError(
+    status: number,
+    error: ProxyErrorBody,
+    endpoint: string,
+    retryAfter: string | null | undefined
+  ): APIError {
+    if (isSignatureError(status, error)) {
+      return new APIError(
+        `The proxy rejected the request: ${error.error}. Check the request signing key in Settings.`,
+        401
+      )
+    }
 
-      if (response.status === 429) {
-        throw new APIError('Rate limited. Please try again in a few minutes.', 429)
+    if (status === 401) {
+      useAuthStore().logout()
+      return new APIError('Authentication expired. Please re-authenticate.')
+    }
+
+    if (status === 403) {
+      return new ProfilePrivateError()
+    }
+
+    if (status === 404) {
+      const code = error.details?.code || ''
+      if (code.toString().toUpperCase().includes('NOTFOUND')) {
+        return new HeroNotFoundError()
       }
+      return new APIError(`Resource not found: ${endpoint}`, 404)
+    }
 
-      throw new APIError(error.error || `API request failed with status ${response.status}`, response.status)
+    if (status === 429) {
+      const wait = parseRetryAfter(retryAfter ?? null)
+      return new APIError(
+        wait !== null
+          ? `Rate limited. Please try again in ${wait} second${wait === 1 ? '' : 's'}.`
+          : 'Rate limited. Please try again in a few minutes.',
+        429
+      )
     }
 
-    return response.json()
+    return new APIError(error.error || `API request failed with status ${status}`, status)
   }
 
   /**
@@ -147,6 +319,15 @@ class BattleNetService {
     return battletag.replace('#', '-')
   }
 
+  /**
+   * Resolve the account to query, falling back to the configured one
+   */
+  private resolveAccount(account?: AccountRef): AccountRef {
+    if (account) return account
+    const settings = useSettingsStore()
+    return { battletag: settings.battletag, region: settings.region }
+  }
+
   /**
    * Strip HTML tags from text
    */
@@ -159,19 +340,146 @@ class BattleNetService {
   }
 
   /**
-   * Get account profile with hero list
+   * Map the hero detail stats block onto a character sheet
    */
-  async getProfile(): Promise<ProfileResponse> {
-    const settings = useSettingsStore()
-    const account = this.formatBattletag(settings.battletag)
-    return this.request<ProfileResponse>(`/d3/profile/${account}/`)
+  private mapHeroStats(stats: HeroDetailResponse['stats']): HeroStats {
+    return {
+      life: stats.life ?? 0,
+      damage: stats.damage ?? 0,
+      toughness: stats.toughness ?? 0,
+      healing: stats.healing ?? 0,
+      strength: stats.strength ?? 0,
+      dexterity: stats.dexterity ?? 0,
+      intelligence: stats.intelligence ?? 0,
+      vitality: stats.vitality ?? 0,
+      attackSpeed: stats.attackSpeed ?? 0,
+      critChance: stats.critChance ?? 0,
+      critDamage: stats.critDamage ?? 0,
+      damageIncrease: stats.damageIncrease ?? 0,
+      armor: stats.armor ?? 0,
+      physicalResist: stats.physicalResist ?? 0,
+      fireResist: stats.fireResist ?? 0,
+      coldResist: stats.coldResist ?? 0,
+      lightningResist: stats.lightningResist ?? 0,
+      poisonResist: stats.poisonResist ?? 0,
+      arcaneResist: stats.arcaneResist ?? 0,
+      damageReduction: stats.damageReduction ?? 0,
+      blockChance: stats.blockChance ?? 0,
+      blockAmountMin: stats.blockAmountMin ?? 0,
+      blockAmountMax: stats.blockAmountMax ?? 0,
+      thorns: stats.thorns ?? 0,
+      lifeSteal: stats.lifeSteal ?? 0,
+      lifePerKill: stats.lifePerKill ?? 0,
+      lifeOnHit: stats.lifeOnHit ?? 0,
+      goldFind: stats.goldFind ?? 0,
+      magicFind: stats.magicFind ?? 0,
+      primaryResource: stats.primaryResource ?? 0,
+      secondaryResource: stats.secondaryResource ?? 0
+    }
   }
 
   /**
-   * Get list of heroes for the current account
+   * Map an API item onto the internal item model
    */
-  async getHeroes(): Promise<HeroSummary[]> {
-    const profile = await this.getProfile()
+  private mapItem(slot: string, itemData: ItemApiResponse): Item {
+    // Determine quality
+    let quality: ItemQuality = 'common'
+    switch (itemData.displayColor) {
+      case 'green':
+        quality = 'set'
+        break
+      case 'orange':
+        quality = 'legendary'
+        break
+      case 'yellow':
+        quality = 'rare'
+        break
+      case 'blue':
+        quality = 'magic'
+        break
+    }
+
+    const item: Item = {
+      slot: slotNames[slot] || slot,
+      name: itemData.name,
+      itemType: itemData.typeName || '',
+      quality,
+      ancientRank: 'normal',
+      setName: itemData.set?.name,
+      armor: itemData.armor?.max,
+      dps: itemData.dps?.max,
+      attacksPerSecond: itemData.attacksPerSecond?.max,
+      twoHanded: itemData.type?.twoHanded,
+      primaryStats: [],
+      secondaryStats: [],
+      primaryAffixes: [],
+      secondaryAffixes: [],
+      gems: [],
+      icon: itemData.icon
+    }
+
+    // Primary stats
+    for (const attr of itemData.attributes?.primary || []) {
+      const text = this.stripHtml(attr.textHtml || attr.text || '')
+      if (text) {
+        item.primaryStats.push(text)
+        item.primaryAffixes.push(parseAffix(attr, slot))
+      }
+    }
+
+    // Secondary stats
+    for (const attr of itemData.attributes?.secondary || []) {
+      const text = this.stripHtml(attr.textHtml || attr.text || '')
+      if (text) {
+        item.secondaryStats.push(text)
+        item.secondaryAffixes.push(parseAffix(attr, slot))
+      }
+    }
+
+    item.ancientRank = detectAncientRank(itemData, slot, item.primaryAffixes)
+
+    // Legendary power
+    for (const attr of itemData.attributes?.passive || []) {
+      const text = this.stripHtml(attr.textHtml || attr.text || '')
+      if (text) {
+        item.legendaryPower = text
+        break
+      }
+    }
+
+    // Gems
+    for (const gemData of itemData.gems || []) {
+      const isLegendary = gemData.isGem && gemData.jewelRank !== undefined
+      const gem: Gem = {
+        name: gemData.item?.name || 'Unknown Gem',
+        rank: gemData.jewelRank,
+        isLegendary,
+        attributes: (gemData.attributes || []).map(a => this.stripHtml(a.textHtml || a.text || ''))
+      }
+      item.gems.push(gem)
+    }
+
+    // Transmog
+    if (itemData.transmog) {
+      item.transmog = itemData.transmog.name
+    }
+
+    return item
+  }
+
+  /**
+   * Get account profile with hero list (any public account, or the configured one)
+   */
+  async getProfile(account?: AccountRef, options?: RequestOptions): Promise<ProfileResponse> {
+    const { battletag, region } = this.resolveAccount(account)
+    return this.request<ProfileResponse>(`/d3/profile/${this.formatBattletag(battletag)}/`, region, options)
+  }
+
+  /**
+   * Get list of heroes for an account (defaults to the configured account)
+   */
+  async getHeroes(account?: AccountRef, options?: RequestOptions): Promise<HeroSummary[]> {
+    const profile = await this.getProfile(account, options)
 
     return profile.heroes.map((hero: HeroApiResponse) => ({
       heroId: hero.id,
@@ -190,11 +498,20 @@ class BattleNetService {
   /**
    * Get detailed hero information
    */
-  async getHeroDetails(heroId: number): Promise<Hero> {
-    const settings = useSettingsStore()
-    const account = this.formatBattletag(settings.battletag)
-    const data = await this.request<HeroDetailResponse>(`/d3/profile/${account}/hero/${heroId}`)
+  async getHeroDetails(heroId: number, account?: AccountRef, options?: RequestOptions): Promise<Hero> {
+    const { battletag, region } = this.resolveAccount(account)
+    const data = await this.request<HeroDetailResponse>(
+      `/d3/profile/${this.formatBattletag(battletag)}/hero/${heroId}`,
+      region,
+      options
+    )
+    return this.mapHeroDetails(data)
+  }
 
+  /**
+   * Map a hero detail response (skills, cube powers, followers; no gear)
+   */
+  private mapHeroDetails(data: HeroDetailResponse): Hero {
     const hero: Hero = {
       heroId: data.id,
       name: data.name,
@@ -210,6 +527,7 @@ class BattleNetService {
       damage: data.stats?.damage,
       toughness: data.stats?.toughness,
       recovery: data.stats?.healing,
+      stats: data.stats ? this.mapHeroStats(data.stats) : undefined,
       activeSkills: [],
       passiveSkills: [],
       items: {},
@@ -250,17 +568,75 @@ class BattleNetService {
       }
     }
 
+    // Followers
+    hero.followers = this.mapFollowers(data.followers || {})
+
     return hero
   }
 
+  /**
+   * Map follower gear and skills from the hero detail response
+   */
+  private mapFollowers(followers: Record<string, FollowerResponse>): Follower[] {
+    const result: Follower[] = []
+
+    for (const [key, data] of Object.entries(followers)) {
+      const type = (data?.slug || key) as FollowerType
+      if (!FOLLOWER_NAMES[type]) continue
+
+      const items: Record<string, Item> = {}
+      for (const [apiSlot, itemData] of Object.entries(data.items || {})) {
+        if (!itemData || typeof itemData !== 'object' || !itemData.name) continue
+        const slot = slotKeyMap[apiSlot] || apiSlot
+        items[slot] = this.mapItem(slot, itemData)
+      }
+
+      // Follower skills come back as a flat list or split into active/passive
+      const skillSlots: SkillSlotResponse[] = Array.isArray(data.skills)
+        ? data.skills
+        : [...(data.skills?.active || []), ...(data.skills?.passive || [])]
+
+      const skills = skillSlots
+        .filter(slot => slot.skill)
+        .map(slot => ({
+          name: slot.skill!.name,
+          slug: slot.skill!.slug,
+          description: this.stripHtml(slot.skill!.description || '')
+        }))
+
+      result.push({
+        type,
+        name: FOLLOWER_NAMES[type],
+        level: data.level,
+        items,
+        skills
+      })
+    }
+
+    return result
+  }
+
   /**
    * Get equipped items for a hero
    */
-  async getHeroItems(heroId: number): Promise<{ items: Record<string, Item>; legendaryGems: Gem[] }> {
-    const settings = useSettingsStore()
-    const account = this.formatBattletag(settings.battletag)
-    const data = await this.request<HeroItemsResponse>(`/d3/profile/${account}/hero/${heroId}/items`)
+  async getHeroItems(
+    heroId: number,
+    account?: AccountRef,
+    options?: RequestOptions
+  ): Promise<{ items: Record<string, Item>; legendaryGems: Gem[] }> {
+    const { battletag, region } = this.resolveAccount(account)
+    const data = await this.request<HeroItemsResponse>(
+      `/d3/profile/${this.formatBattletag(battletag)}/hero/${heroId}/items`,
+      region,
+      options
+    )
+    return this.mapHeroItems(data)
+  }
 
+  /**
+   * Map a hero items response into slot-keyed items plus socketed legendary gems
+   */
+  private mapHeroItems(data: HeroItemsResponse): { items: Record<string, Item>; legendaryGems: Gem[] } {
     const items: Record<string, Item> = {}
     const legendaryGems: Gem[] = []
 
@@ -271,96 +647,215 @@ class BattleNetService {
 
       // Map API slot name to internal slot key (e.g., 'bracers' -> 'wrists')
       const slot = slotKeyMap[apiSlot] || apiSlot
+      const item = this.mapItem(slot, itemData)
 
-      // Determine quality
-      let quality: ItemQuality = 'common'
-      switch (itemData.displayColor) {
-        case 'green':
-          quality = 'set'
-          break
-        case 'orange':
-          quality = 'legendary'
-          break
-        case 'yellow':
-          quality = 'rare'
-          break
-        case 'blue':
-          quality = 'magic'
-          break
-      }
+      legendaryGems.push(...item.gems.filter(g => g.isLegendary))
+      items[slot] = item
+    }
 
-      const item: Item = {
-        slot: slotNames[slot] || slot,
-        name: itemData.name,
-        itemType: itemData.typeName || '',
-        quality,
-        setName: itemData.set?.name,
-        armor: itemData.armor?.max,
-        dps: itemData.dps?.max,
-        attacksPerSecond: itemData.attacksPerSecond?.max,
-        primaryStats: [],
-        secondaryStats: [],
-        gems: [],
-        icon: itemData.icon
-      }
+    return { items, legendaryGems }
+  }
 
-      // Primary stats
-      for (const attr of itemData.attributes?.primary || []) {
-        const text = this.stripHtml(attr.textHtml || attr.text || '')
-        if (text) item.primaryStats.push(text)
-      }
+  /**
+   * Get complete hero information including gear
+   */
+  async getFullHero(heroId: number, account?: AccountRef, options?: RequestOptions): Promise<Hero> {
+    const hero = await this.getHeroDetails(heroId, account, options)
+    const { items, legendaryGems } = await this.getHeroItems(heroId, account, options)
+    hero.items = items
+    hero.legendaryGems = legendaryGems
+    if (account) {
+      hero.account = account
+    }
+    return hero
+  }
 
-      // Secondary stats
-      for (const attr of itemData.attributes?.secondary || []) {
-        const text = this.stripHtml(attr.textHtml || attr.text || '')
-        if (text) item.secondaryStats.push(text)
-      }
+  /**
+   * Get complete information for several heroes of one account
+   */
+  async getFullHeroes(heroIds: number[], account?: AccountRef, options?: RequestOptions): Promise<FullHeroesResult> {
+    return this.getFullHeroesByRef(heroIds.map(heroId => ({ heroId, account })), options)
+  }
 
-      // Legendary power
-      for (const attr of itemData.attributes?.passive || []) {
-        const text = this.stripHtml(attr.textHtml || attr.text || '')
-        if (text) {
-          item.legendaryPower = text
-          break
-        }
-      }
+  /**
+   * Get complete information for heroes on any accounts, two endpoints per hero
+   * batched through the proxy. Heroes that fail on their own (e.g. deleted or private)
+   * are reported in `failed`; an error is only thrown when none could be loaded.
+   */
+  async getFullHeroesByRef(refs: HeroRef[], options?: RequestOptions): Promise<FullHeroesResult> {
+    const result: FullHeroesResult = { heroes: [], failed: [] }
+    if (refs.length === 0) return result
+
+    let firstError: unknown = null
+    const fail = (ref: HeroRef, error: unknown) => {
+      firstError ??= error
+      result.failed.push({ ...ref, error: error instanceof Error ? error.message : 'Failed to load hero' })
+    }
 
-      // Gems
-      for (const gemData of itemData.gems || []) {
-        const isLegendary = gemData.isGem && gemData.jewelRank !== undefined
-        const gem: Gem = {
-          name: gemData.item?.name || 'Unknown Gem',
-          rank: gemData.jewelRank,
-          isLegendary,
-          attributes: (gemData.attributes || []).map(a => this.stripHtml(a.textHtml || a.text || ''))
+    // Proxies deployed before /api/batch existed get one hero at a time
+    const capabilities = await authService.getCapabilities()
+    if (!capabilities?.batchRequests) {
+      for (const ref of refs) {
+        try {
+          result.heroes.push(await this.getFullHero(ref.heroId, ref.account, options))
+        } catch (e) {
+          fail(ref, e)
         }
-        item.gems.push(gem)
+      }
+    } else {
+      // A batch goes to one region
+      const byRegion = new Map<AccountRef['region'], HeroRef[]>()
+      for (const ref of refs) {
+        const { region } = this.resolveAccount(ref.account)
+        byRegion.set(region, [...(byRegion.get(region) ?? []), ref])
+      }
 
-        if (isLegendary) {
-          legendaryGems.push(gem)
+      for (const [region, regionRefs] of byRegion) {
+        for (let i = 0; i < regionRefs.length; i += MAX_BATCH_HEROES) {
+          const chunk = regionRefs.slice(i, i + MAX_BATCH_HEROES)
+          const heroPaths = chunk.map(ref => {
+            const { battletag } = this.resolveAccount(ref.account)
+            return `/d3/profile/${this.formatBattletag(battletag)}/hero/${ref.heroId}`
+          })
+
+          let results: BatchProxyResult[]
+          try {
+            results = await this.batchRequest(heroPaths.flatMap(path => [path, `${path}/items`]), region, options)
+          } catch (e) {
+            chunk.forEach(ref => fail(ref, e))
+            continue
+          }
+
+          chunk.forEach((ref, index) => {
+            const details = results[index * 2]
+            const gear = results[index * 2 + 1]
+            const failed = [details, gear].find(r => r.status !== 200)
+            if (failed) {
+              fail(ref, this.toAPIError(failed.status, failed.body as ProxyErrorBody, failed.endpoint, failed.retryAfter))
+              return
+            }
+
+            const hero = this.mapHeroDetails(details.body as HeroDetailResponse)
+            const { items, legendaryGems } = this.mapHeroItems(gear.body as HeroItemsResponse)
+            hero.items = items
+            hero.legendaryGems = legendaryGems
+            if (ref.account) {
+              hero.account = ref.account
+            }
+            result.heroes.push(hero)
+          })
         }
       }
+    }
+
+    if (result.heroes.length === 0 && firstError) {
+      throw firstError
+    }
+    return result
+  }
+
+  /**
+   * Extract the id from a Game Data API index link (.../season/28?... -> 28)
+   */
+  private parseIndexId(href: string): number {
+    const match = href.match(/\/(\d+)(?:\?|$)/)
+    return match ? Number(match[1]) : NaN
+  }
 
-      // Transmog
-      if (itemData.transmog) {
-        item.transmog = itemData.transmog.name
+  /**
+   * Get the list of seasons or eras that have leaderboards
+   */
+  async getLeaderboardIndex(scope: LeaderboardScope, region?: AccountRef['region']): Promise<LeaderboardIndex> {
+    if (scope === 'season') {
+      const data = await this.request<SeasonIndexResponse>('/data/d3/season/', region)
+      return {
+        scope,
+        current: data.current_season,
+        ids: data.season.map(link => this.parseIndexId(link.href)).filter(id => !isNaN(id))
       }
+    }
 
-      items[slot] = item
+    const data = await this.request<EraIndexResponse>('/data/d3/era/', region)
+    return {
+      scope,
+      current: data.current_era,
+      ids: data.era.map(link => this.parseIndexId(link.href)).filter(id => !isNaN(id))
     }
+  }
 
-    return { items, legendaryGems }
+  /**
+   * Get a single leaderboard page for a season or era
+   */
+  async getLeaderboard(
+    scope: LeaderboardScope,
+    scopeId: number,
+    leaderboardId: string,
+    region?: AccountRef['region']
+  ): Promise<Leaderboard> {
+    const accountRegion = region ?? useSettingsStore().region
+    const data = await this.request<LeaderboardResponse>(
+      `/data/d3/${scope}/${scopeId}/leaderboard/${leaderboardId}`,
+      accountRegion
+    )
+
+    const entries: LeaderboardEntry[] = []
+    for (const row of data.row || []) {
+      const entry = this.mapLeaderboardRow(row.data, row.player[0]?.data || [], accountRegion)
+      if (entry) entries.push(entry)
+    }
+
+    return {
+      scope,
+      scopeId,
+      leaderboardId,
+      title: data.title?.en_US || leaderboardId,
+      updatedAt: data.last_update_time,
+      entries: entries.sort((a, b) => a.rank - b.rank)
+    }
   }
 
   /**
-   * Get complete hero information including gear
+   * Get the solo Greater Rift leaderboard for a class (e.g. 'demon-hunter')
    */
-  async getFullHero(heroId: number): Promise<Hero> {
-    const hero = await this.getHeroDetails(heroId)
-    const { items, legendaryGems } = await this.getHeroItems(heroId)
-    hero.items = items
-    hero.legendaryGems = legendaryGems
-    return hero
+  async getClassLeaderboard(
+    scope: LeaderboardScope,
+    scopeId: number,
+    classSlug: string,
+    hardcore = false,
+    region?: AccountRef['region']
+  ): Promise<Leaderboard> {
+    const id = LEADERBOARD_CLASS_IDS[classSlug] || classSlug
+    const leaderboardId = hardcore ? `rift-hardcore-${id}` : `rift-${id}`
+    return this.getLeaderboard(scope, scopeId, leaderboardId, region)
+  }
+
+  /**
+   * Map a leaderboard row's key/value data into an entry
+   */
+  private mapLeaderboardRow(
+    rowData: LeaderboardDataResponse[],
+    playerData: LeaderboardDataResponse[],
+    region: AccountRef['region']
+  ): LeaderboardEntry | null {
+    const field = (data: LeaderboardDataResponse[], id: string) => data.find(d => d.id === id)
+
+    const battletag = field(rowData, 'BattleTag')?.string || field(playerData, 'HeroBattleTag')?.string
+    if (!battletag) return null
+
+    const heroClass = (field(playerData, 'HeroClass')?.string || '').replace(' ', '-')
+
+    return {
+      rank: field(rowData, 'Rank')?.number ?? 0,
+      riftLevel: field(rowData, 'RiftLevel')?.number ?? 0,
+      riftTime: field(rowData, 'RiftTime')?.timestamp ?? 0,
+      completedAt: field(rowData, 'CompletedTime')?.timestamp,
+      heroId: field(playerData, 'HeroId')?.number,
+      heroClass: classNames[heroClass] || heroClass,
+      heroLevel: field(playerData, 'HeroLevel')?.number,
+      paragonLevel: field(playerData, 'ParagonLevel')?.number,
+      clanName: field(playerData, 'ClanName')?.string,
+      account: { battletag, region }
+    }
   }
 }
 
@@ -0,0 +1,158 @@
+/**
+ * @file services/breakpointCalculator.ts
+ * @description Attack speed breakpoints: frames per action by weapon type and skill
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import type { Hero, Item } from '@/types/hero'
+import { SLOT_ITEM_TYPES, WEAPON_BASE_SPEED, WEAPON_TYPE_NAMES } from '@/types/item'
+import type { AttackSpeedAnalysis, FrameBreakpoint, SkillFrameAnalysis } from '@/types/breakpoint'
+import {
+  GOGOK_IAS_PER_STACK,
+  GOGOK_MAX_STACKS,
+  PARAGON_IAS_MAX_POINTS,
+  PARAGON_IAS_PER_POINT,
+  SKILL_FRAMES
+} from '@/data/d3Reference'
+
+const FRAMES_PER_SECOND = 60
+
+// Frames per action for skills without frame data (a standard attack)
+const DEFAULT_FRAMES = 60
+
+// Breakpoints listed on each side of the current one
+const TABLE_RADIUS = 3
+
+// Guards against float noise right at a breakpoint
+const EPSILON = 1e-9
+
+/**
+ * Weapon type slug from an item's type name ("Ancient Legendary Two-Handed Sword" -> sword-2h)
+ */
+export function getWeaponType(item?: Item): string | undefined {
+  if (!item) return undefined
+  const typeName = item.itemType.toLowerCase()
+
+  // Longest name first so "Two-Handed Axe" wins over "Axe" and "Hand Crossbow" over "Crossbow"
+  return SLOT_ITEM_TYPES.mainHand
+    .filter(slug => WEAPON_TYPE_NAMES[slug] && typeName.includes(WEAPON_TYPE_NAMES[slug].toLowerCase()))
+    .sort((a, b) => WEAPON_TYPE_NAMES[b].length - WEAPON_TYPE_NAMES[a].length)[0]
+}
+
+/**
+ * Frames per action for a skill with a weapon type at 1.0 attacks per second
+ */
+export function getBaseFrames(skill: string, weaponType?: string): number {
+  const info = SKILL_FRAMES[skill]
+  if (!info) return DEFAULT_FRAMES
+  return (weaponType && info.byWeapon?.[weaponType]) || info.frames
+}
+
+/**
+ * Whole frames per action at an attack speed
+ */
+function framesAt(baseFrames: number, aps: number): number {
+  return Math.max(1, Math.ceil(baseFrames / aps - EPSILON))
+}
+
+function toBreakpoint(baseFrames: number, frames: number): FrameBreakpoint {
+  return {
+    frames,
+    aps: baseFrames / frames,
+    actionsPerSecond: FRAMES_PER_SECOND / frames
+  }
+}
+
+class BreakpointCalculator {
+  /**
+   * Frame breakpoints for a hero's equipped skills
+   */
+  analyze(hero: Hero): AttackSpeedAnalysis {
+    const mainHand = hero.items.mainHand
+    const weaponType = getWeaponType(mainHand)
+    const weaponAps = this.getWeaponAps(hero, weaponType)
+    const sheetAps = hero.stats?.attackSpeed || weaponAps
+    const ias = weaponAps > 0 ? sheetAps / weaponAps - 1 : 0
+    const hasGogok = hero.legendaryGems.some(g => g.name === 'Gogok of Swiftness')
+
+    // Listed skills first, then one row for a standard attack if no skill uses it
+    const skills = hero.activeSkills.filter(s => SKILL_FRAMES[s.name]).map(s => s.name)
+    if (skills.length === 0) skills.push('Attack')
+
+    return {
+      weaponType,
+      weaponAps,
+      sheetAps,
+      ias,
+      hasGogok,
+      skills: skills.map(skill => this.analyzeSkill(skill, weaponType, weaponAps, ias))
+    }
+  }
+
+  /**
+   * Where one skill sits on its frame table at a given weapon speed and IAS
+   */
+  analyzeSkill(skill: string, weaponType: string | undefined, weaponAps: number, ias: number): SkillFrameAnalysis {
+    const info = SKILL_FRAMES[skill]
+    const baseFrames = getBaseFrames(skill, weaponType)
+    const aps = weaponAps * (1 + ias)
+    const frames = framesAt(baseFrames, aps)
+
+    const current = toBreakpoint(baseFrames, frames)
+    const next = frames > 1 ? toBreakpoint(baseFrames, frames - 1) : undefined
+
+    // IAS adds to the weapon's speed: aps = weaponAps x (1 + ias)
+    const iasFor = (targetAps: number) => weaponAps > 0 ? targetAps / weaponAps - 1 : Infinity
+    const iasToNext = next ? Math.max(0, iasFor(next.aps) - ias) : undefined
+    const spareIas = Math.max(0, ias - iasFor(current.aps))
+
+    const stacksOrPoints = (perUnit: number, max: number) => {
+      if (iasToNext === undefined) return undefined
+      const units = Math.ceil(iasToNext / perUnit - EPSILON)
+      return units <= max ? Math.max(1, units) : undefined
+    }
+
+    const table: FrameBreakpoint[] = []
+    for (let f = frames + TABLE_RADIUS; f >= Math.max(1, frames - TABLE_RADIUS); f--) {
+      table.push(toBreakpoint(baseFrames, f))
+    }
+
+    return {
+      skill,
+      channeled: info?.channeled ?? false,
+      baseFrames,
+      current,
+      next,
+      iasToNext,
+      gogokStacksToNext: stacksOrPoints(GOGOK_IAS_PER_STACK, GOGOK_MAX_STACKS),
+      paragonPointsToNext: stacksOrPoints(PARAGON_IAS_PER_POINT, PARAGON_IAS_MAX_POINTS),
+      spareParagonPoints: Math.min(PARAGON_IAS_MAX_POINTS, Math.floor(spareIas / PARAGON_IAS_PER_POINT + EPSILON)),
+      table
+    }
+  }
+
+  // ========================================
+  // Private methods
+  // ========================================
+
+  /**
+   * Weapon attacks per second, averaged across both weapons when dual wielding
+   */
+  private getWeaponAps(hero: Hero, weaponType?: string): number {
+    const speeds = [hero.items.mainHand, hero.items.offHand]
+      .map(item => item?.attacksPerSecond)
+      .filter((aps): aps is number => !!aps && aps > 0)
+
+    if (speeds.length > 0) {
+      return speeds.reduce((sum, aps) => sum + aps, 0) / speeds.length
+    }
+    return (weaponType && WEAPON_BASE_SPEED[weaponType]) || 1
+  }
+}
+
+// Export singleton instance
+export const breakpointCalculator = new BreakpointCalculator()
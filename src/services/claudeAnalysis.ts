@@ -8,8 +8,8 @@
  * @copyright (c) 2025 drsii. All rights reserved.
  */
 
-import { useSettingsStore } from '@/stores/settings'
-import type { Hero } from '@/types/hero'
+import { useVaultStore } from '@/stores/vault'
+import type { Hero, HeroStats } from '@/types/hero'
 import type {
   TieredUpgrades,
   ProgressionPath,
@@ -18,6 +18,8 @@ import type {
   DifficultyTier
 } from '@/types/progression'
 import type { MetaBuildReference } from '@/types/maxroll'
+import { leaderboardMetaService } from './leaderboardMeta'
+import { cooldownCalculator } from './cooldownCalculator'
 import {
   isPassiveSkill,
   checkRingSlotConflicts,
@@ -140,11 +142,7 @@ class ClaudeAnalysisService {
    * Generate build recommendations for a hero
    */
   async analyzeHero(hero: Hero): Promise<BuildRecommendation> {
-    const settings = useSettingsStore()
-
-    if (!settings.claudeApiKey) {
-      throw new Error('Claude API key not configured. Add it in Settings.')
-    }
+    const apiKey = this.getApiKey()
 
     const prompt = this.buildPrompt(hero)
 
@@ -152,7 +150,7 @@ class ClaudeAnalysisService {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-api-key': settings.claudeApiKey,
+        'x-api-key': apiKey,
         'anthropic-version': '2023-06-01',
         'anthropic-dangerous-direct-browser-access': 'true'
       },
@@ -202,11 +200,7 @@ class ClaudeAnalysisService {
     options: AnalysisOptions,
     metaBuild?: MetaBuildReference
   ): Promise<EnhancedBuildRecommendation> {
-    const settings = useSettingsStore()
-
-    if (!settings.claudeApiKey) {
-      throw new Error('Claude API key not configured. Add it in Settings.')
-    }
+    const apiKey = this.getApiKey()
 
     const prompt = this.buildEnhancedPrompt(hero, options, metaBuild)
 
@@ -214,7 +208,7 @@ class ClaudeAnalysisService {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-api-key': settings.claudeApiKey,
+        'x-api-key': apiKey,
         'anthropic-version': '2023-06-01',
         'anthropic-dangerous-direct-browser-access': 'true'
       },
@@ -261,6 +255,20 @@ class ClaudeAnalysisService {
     return recommendation
   }
 
+  /**
+   * Read the API key, which lives in the credential vault when one is set up
+   */
+  private getApiKey(): string {
+    const apiKey = useVaultStore().readSecret('claudeApiKey')
+    if (apiKey === null) {
+      throw new Error('Claude API key is locked. Unlock the vault with your passphrase to continue.')
+    }
+    if (!apiKey) {
+      throw new Error('Claude API key not configured. Add it in Settings.')
+    }
+    return apiKey
+  }
+
   /**
    * Build enhanced prompt with tiered upgrade requirements
    */
@@ -274,7 +282,18 @@ class ClaudeAnalysisService {
 
     // Add meta build context if available
     let metaContext = ''
-    if (metaBuild) {
+    if (metaBuild?.source === 'leaderboard' && metaBuild.usage) {
+      metaContext = `
+## Meta Reference (from the Greater Rift leaderboard)
+**Most common build**: ${metaBuild.buildName} (sampled ${metaBuild.tier})
+**Leaderboard**: ${metaBuild.guideUrl}
+
+### What top players actually use
+${leaderboardMetaService.buildUsageContext(metaBuild.usage, hero)}
+
+Treat these usage rates as evidence of what works at the top of the ladder. Call out slots where the hero deviates from a high-usage choice.
+`
+    } else if (metaBuild) {
       metaContext = `
 ## Meta Build Reference (from Maxroll.gg)
 **Build**: ${metaBuild.buildName} (${metaBuild.tier}-Tier)
@@ -430,6 +449,9 @@ Include these additional fields in your JSON response:
       ? hero.legendaryGems.map(g => `${g.name} (Rank ${g.rank || 0})`).join(', ')
       : 'No legendary gems equipped'
 
+    const characterSheet = hero.stats ? this.buildCharacterSheet(hero.stats) : ''
+    const cooldowns = cooldownCalculator.buildPromptContext(hero)
+
     return `You are a Diablo III expert build advisor. Analyze this hero and provide optimal build recommendations.
 
 ## Hero Information
@@ -451,7 +473,7 @@ Include these additional fields in your JSON response:
 - **Toughness**: ${hero.toughness?.toLocaleString() || 'Unknown'} (${hero.toughness || 0} raw)
 - **Recovery**: ${hero.recovery?.toLocaleString() || 'Unknown'} (${hero.recovery || 0} raw)
 - **Life**: ${hero.life?.toLocaleString() || 'Unknown'} (${hero.life || 0} raw)
-
+${characterSheet}${cooldowns}
 ## CRITICAL ACCURACY RULES - READ CAREFULLY
 
 1. **SKILL TYPES**:
@@ -561,6 +583,24 @@ Respond with a JSON object in this exact format (no markdown, just raw JSON):
 }`
   }
 
+  /**
+   * Build the detailed character sheet section of the prompt
+   */
+  private buildCharacterSheet(stats: HeroStats): string {
+    const pct = (fraction: number) => `${(fraction * 100).toFixed(1)}%`
+    const int = (num: number) => Math.round(num).toLocaleString()
+
+    return `
+## Character Sheet (actual values)
+- **Attributes**: Strength ${int(stats.strength)}, Dexterity ${int(stats.dexterity)}, Intelligence ${int(stats.intelligence)}, Vitality ${int(stats.vitality)}
+- **Offense**: ${stats.attackSpeed.toFixed(2)} attacks/sec, ${pct(stats.critChance)} crit chance, ${pct(stats.critDamage)} crit damage, ${pct(stats.damageIncrease)} damage increase
+- **Defense**: ${int(stats.armor)} armor, ${pct(stats.damageReduction)} damage reduction, ${pct(stats.blockChance)} block chance (${int(stats.blockAmountMin)}-${int(stats.blockAmountMax)}), ${int(stats.thorns)} thorns
+- **Resistances**: Physical ${int(stats.physicalResist)}, Fire ${int(stats.fireResist)}, Cold ${int(stats.coldResist)}, Lightning ${int(stats.lightningResist)}, Poison ${int(stats.poisonResist)}, Arcane/Holy ${int(stats.arcaneResist)}
+- **Sustain**: ${int(stats.lifeOnHit)} life per hit, ${int(stats.lifePerKill)} life per kill, ${pct(stats.lifeSteal)} life steal
+- **Resources**: ${int(stats.primaryResource)} primary${stats.secondaryResource ? `, ${int(stats.secondaryResource)} secondary` : ''}
+`
+  }
+
   /**
    * Normalize projected improvements with defaults for missing data
    */
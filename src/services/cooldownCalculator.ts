@@ -0,0 +1,318 @@
+/**
+ * @file services/cooldownCalculator.ts
+ * @description Cooldown reduction and resource cost reduction totals with skill uptime breakpoints
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import type { Hero, Item } from '@/types/hero'
+import { SLOT_NAMES } from '@/types/hero'
+import type {
+  CdrSlotHeadroom,
+  CooldownAnalysis,
+  CooldownSource,
+  CooldownStat,
+  SkillBreakpoint
+} from '@/types/cooldown'
+import {
+  LEGENDARY_GEM_COOLDOWN,
+  PARAGON_CDR_MAX,
+  PARAGON_RCR_MAX,
+  PASSIVE_COOLDOWNS,
+  SKILL_COOLDOWNS,
+  getActiveSetBonuses,
+  hasRingOfRoyalGrandeur
+} from '@/data/d3Reference'
+import { getAffixRange, getItemAffixes, parseAffixText } from './affixParser'
+import { paragonOptimizer } from './paragonOptimizer'
+
+// Slots that can roll cooldown reduction as an affix
+const CDR_AFFIX_SLOTS = ['shoulders', 'hands', 'neck', 'leftFinger', 'rightFinger', 'mainHand', 'offHand']
+
+// A Flawless Royal Diamond socketed in the helm
+const HELM_DIAMOND_CDR = 0.125
+
+/**
+ * Combine reductions multiplicatively: 1 - product of (1 - value)
+ */
+function combine(values: number[]): number {
+  return 1 - values.reduce((remaining, value) => remaining * (1 - value), 1)
+}
+
+/**
+ * CDR and RCR percentages in set bonus text ("Reduces cooldown of all skills by 20%", "Reduces all cooldowns by 10%")
+ */
+function parseSetReductions(text: string): Partial<Record<CooldownStat, number>> {
+  const result: Partial<Record<CooldownStat, number>> = {}
+  const cdr = text.match(/(?:cooldowns?(?: of all skills)?|all cooldowns) by (\d+(?:\.\d+)?)%/i)
+  const rcr = text.match(/(?:all )?resource costs? by (\d+(?:\.\d+)?)%/i)
+  if (cdr) result.cdr = Number(cdr[1]) / 100
+  if (rcr) result.rcr = Number(rcr[1]) / 100
+  return result
+}
+
+class CooldownCalculator {
+  /**
+   * Total CDR/RCR for a hero and the uptime breakpoints of their equipped skills
+   */
+  analyze(hero: Hero): CooldownAnalysis {
+    const sources = this.collectSources(hero)
+    const global = sources.filter(s => !s.skills)
+
+    const cdr = combine(global.filter(s => s.stat === 'cdr').map(s => s.value))
+    const rcr = combine(global.filter(s => s.stat === 'rcr').map(s => s.value))
+
+    const breakpoints = hero.activeSkills
+      .filter(skill => SKILL_COOLDOWNS[skill.name])
+      .map(skill => this.toBreakpoint(skill.name, cdr, sources))
+
+    return {
+      cdr,
+      rcr,
+      sources: sources.sort((a, b) => b.value - a.value),
+      breakpoints,
+      slotHeadroom: this.getSlotHeadroom(hero, cdr, sources, breakpoints),
+      notes: this.getScalingNotes(hero, cdr, rcr)
+    }
+  }
+
+  /**
+   * Plain-text summary for the Claude prompt
+   */
+  buildPromptContext(hero: Hero): string {
+    const analysis = this.analyze(hero)
+    const pct = (fraction: number) => `${(fraction * 100).toFixed(1)}%`
+    const lines = [
+      `- **Total Cooldown Reduction**: ${pct(analysis.cdr)} (multiplicative)`,
+      `- **Total Resource Cost Reduction**: ${pct(analysis.rcr)} (multiplicative)`
+    ]
+
+    for (const bp of analysis.breakpoints) {
+      const status = bp.requiredCdr === undefined
+        ? `${bp.effectiveCooldown.toFixed(1)}s cooldown`
+        : bp.met
+          ? `permanent uptime (needs ${pct(bp.requiredCdr)})`
+          : `${pct(bp.uptime ?? 0)} uptime, needs ${pct(bp.requiredCdr)} CDR (${pct(bp.additionalCdr)} more)`
+      lines.push(`- **${bp.skill}**: ${status}`)
+    }
+
+    for (const note of analysis.notes) {
+      lines.push(`- ${note}`)
+    }
+
+    return `
+## Cooldowns & Resource Costs
+${lines.join('\n')}
+`
+  }
+
+  // ========================================
+  // Private methods
+  // ========================================
+
+  private collectSources(hero: Hero): CooldownSource[] {
+    const sources: CooldownSource[] = []
+
+    for (const [slot, item] of Object.entries(hero.items)) {
+      for (const affix of getItemAffixes(item)) {
+        if (affix.value === undefined) continue
+        if (affix.kind === 'cooldownReduction' || affix.kind === 'resourceCostReduction') {
+          const stat: CooldownStat = affix.kind === 'cooldownReduction' ? 'cdr' : 'rcr'
+          sources.push({
+            key: `affix:${slot}:${stat}`,
+            stat,
+            category: 'affix',
+            label: `${SLOT_NAMES[slot] || slot}: ${item.name}`,
+            value: affix.value / 100,
+            slot
+          })
+        }
+      }
+
+      const gemCdr = this.getSocketCdr(item)
+      if (gemCdr > 0) {
+        sources.push({
+          key: `gem:${slot}`,
+          stat: 'cdr',
+          category: 'gem',
+          label: `${SLOT_NAMES[slot] || slot} socket`,
+          value: gemCdr,
+          slot
+        })
+      }
+    }
+
+    for (const gem of hero.legendaryGems) {
+      const info = LEGENDARY_GEM_COOLDOWN[gem.name]
+      if (info && (gem.rank ?? 0) >= info.minRank) {
+        sources.push({
+          key: `gem:${gem.name}`,
+          stat: 'cdr',
+          category: 'gem',
+          label: gem.name,
+          value: info.cdr,
+          condition: info.note
+        })
+      }
+    }
+
+    // The profile API doesn't expose paragon allocation, so use the optimizer's default spend.
+    // CDR and RCR each draw on their own category's points, not one shared pool.
+    const paragon = paragonOptimizer.allocate(hero.paragonLevel || 0, hero.heroClass)
+    const paragonPercent = (stat: 'cooldownReduction' | 'resourceCostReduction') =>
+      (paragon.stats.find(s => s.stat === stat)?.value ?? 0) / 100
+    const paragonCdr = Math.min(PARAGON_CDR_MAX, paragonPercent('cooldownReduction'))
+    const paragonRcr = Math.min(PARAGON_RCR_MAX, paragonPercent('resourceCostReduction'))
+    if (paragonCdr > 0) {
+      sources.push({ key: 'paragon:cdr', stat: 'cdr', category: 'paragon', label: 'Paragon', value: paragonCdr, condition: 'default paragon priorities' })
+    }
+    if (paragonRcr > 0) {
+      sources.push({ key: 'paragon:rcr', stat: 'rcr', category: 'paragon', label: 'Paragon', value: paragonRcr, condition: 'default paragon priorities' })
+    }
+
+    for (const { setName, bonus, pieces } of this.getActiveSetTiers(hero)) {
+      const reductions = parseSetReductions(bonus)
+      for (const stat of ['cdr', 'rcr'] as const) {
+        const value = reductions[stat]
+        if (value) {
+          sources.push({ key: `set:${setName}:${pieces}:${stat}`, stat, category: 'set', label: `${setName} (${pieces})`, value })
+        }
+      }
+    }
+
+    for (const passive of hero.passiveSkills) {
+      const info = PASSIVE_COOLDOWNS[passive.name]
+      if (!info) continue
+      for (const stat of ['cdr', 'rcr'] as const) {
+        const value = info[stat]
+        if (value) {
+          sources.push({
+            key: `passive:${passive.name}:${stat}`,
+            stat,
+            category: 'passive',
+            label: passive.name,
+            value,
+            skills: info.skills,
+            condition: info.note
+          })
+        }
+      }
+    }
+
+    return sources
+  }
+
+  /**
+   * CDR from regular gems socketed in an item (Diamond in the helm)
+   */
+  private getSocketCdr(item: Item): number {
+    let total = 0
+    for (const gem of item.gems || []) {
+      if (gem.isLegendary) continue
+      for (const text of gem.attributes) {
+        const affix = parseAffixText(text)
+        if (affix.kind === 'cooldownReduction' && affix.value !== undefined) {
+          total += affix.value / 100
+        }
+      }
+    }
+    return total
+  }
+
+  private getActiveSetTiers(hero: Hero): Array<{ setName: string; pieces: number; bonus: string }> {
+    const counts = new Map<string, number>()
+    for (const item of Object.values(hero.items)) {
+      if (item.setName) counts.set(item.setName, (counts.get(item.setName) || 0) + 1)
+    }
+
+    const hasRoRG = hasRingOfRoyalGrandeur(hero.items, hero.cubePowers)
+    const tiers: Array<{ setName: string; pieces: number; bonus: string }> = []
+    for (const [setName, pieces] of counts) {
+      for (const tier of getActiveSetBonuses(setName, pieces, hasRoRG)) {
+        tiers.push({ setName, pieces: tier.pieces, bonus: tier.bonus })
+      }
+    }
+    return tiers
+  }
+
+  private toBreakpoint(skill: string, globalCdr: number, sources: CooldownSource[]): SkillBreakpoint {
+    const info = SKILL_COOLDOWNS[skill]
+    const specific = sources.filter(s => s.stat === 'cdr' && s.skills?.includes(skill)).map(s => s.value)
+    const cdr = combine([globalCdr, ...specific])
+    const effectiveCooldown = info.cooldown * (1 - cdr)
+
+    if (info.duration === undefined) {
+      return { skill, baseCooldown: info.cooldown, effectiveCooldown, cdr, additionalCdr: 0, met: true }
+    }
+
+    const requiredCdr = Math.max(0, 1 - info.duration / info.cooldown)
+    const met = cdr >= requiredCdr
+    return {
+      skill,
+      baseCooldown: info.cooldown,
+      duration: info.duration,
+      effectiveCooldown,
+      cdr,
+      requiredCdr,
+      additionalCdr: met ? 0 : 1 - (1 - requiredCdr) / (1 - cdr),
+      met,
+      uptime: Math.min(1, info.duration / effectiveCooldown)
+    }
+  }
+
+  /**
+   * For each slot that can roll CDR, the total with a max roll there and which breakpoints it reaches
+   */
+  private getSlotHeadroom(
+    hero: Hero,
+    cdr: number,
+    sources: CooldownSource[],
+    breakpoints: SkillBreakpoint[]
+  ): CdrSlotHeadroom[] {
+    const headroom: CdrSlotHeadroom[] = []
+    const slots = [...CDR_AFFIX_SLOTS.map(slot => ({ slot, max: (getAffixRange('cooldownReduction', slot)?.max ?? 0) / 100 })),
+      { slot: 'head', max: HELM_DIAMOND_CDR }]
+
+    for (const { slot, max } of slots) {
+      if (!hero.items[slot] || max <= 0) continue
+      const current = sources
+        .filter(s => s.stat === 'cdr' && s.slot === slot && (slot === 'head' ? s.category === 'gem' : s.category === 'affix'))
+        .reduce((sum, s) => sum + s.value, 0)
+      if (current >= max) continue
+
+      const totalIfMaxed = 1 - (1 - cdr) / (1 - current) * (1 - max)
+      const reaches = breakpoints
+        .filter(bp => !bp.met && bp.requiredCdr !== undefined)
+        .filter(bp => 1 - (1 - bp.cdr) / (1 - current) * (1 - max) >= bp.requiredCdr!)
+        .map(bp => bp.skill)
+
+      headroom.push({ slot, current, max, totalIfMaxed, reaches })
+    }
+
+    return headroom.sort((a, b) => b.totalIfMaxed - a.totalIfMaxed)
+  }
+
+  /**
+   * Set bonuses whose power depends on CDR/RCR
+   */
+  private getScalingNotes(hero: Hero, cdr: number, rcr: number): string[] {
+    const notes: string[] = []
+    const pct = (fraction: number) => `${(fraction * 100).toFixed(1)}%`
+
+    for (const { setName, bonus } of this.getActiveSetTiers(hero)) {
+      if (/increased by your percentage of Cooldown Reduction/i.test(bonus)) {
+        notes.push(`${setName}: +${pct(cdr)} damage from Cooldown Reduction`)
+      }
+      if (/reduced by your percentage of Resource Cost Reduction/i.test(bonus)) {
+        notes.push(`${setName}: ${pct(rcr)} damage reduction from Resource Cost Reduction`)
+      }
+    }
+    return notes
+  }
+}
+
+// Export singleton instance
+export const cooldownCalculator = new CooldownCalculator()
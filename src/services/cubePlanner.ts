@@ -0,0 +1,208 @@
+/**
+ * @file services/cubePlanner.ts
+ * @description Kanai's Cube planner: extracted power tracking and the best power per cube slot
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import type { AccountRef } from '@/types/api'
+import type { Hero } from '@/types/hero'
+import type { TargetBuild } from '@/types/maxroll'
+import type { CubeConflict, CubePlan, CubePowerSuggestion, CubeSlot, CubeSuggestionReason } from '@/types/cube'
+import { CUBE_SLOTS } from '@/types/cube'
+import {
+  CUBE_POWERS,
+  LEGENDARY_EFFECTS,
+  getEffectivePieces,
+  getSetCatalogEntry,
+  getSetThresholds
+} from '@/data/d3Reference'
+
+// LocalStorage key for extracted powers, per account and realm
+const CUBE_EXTRACTED_KEY = 'dyerb-cube-extracted'
+
+// Suggestion scores by reason
+const REASON_SCORE: Record<CubeSuggestionReason, number> = {
+  guide: 100,
+  set: 80,
+  'guide-gear': 60,
+  skill: 40,
+  general: 20,
+  current: 10
+}
+
+// Powers not yet extracted drop behind extracted ones with a close score
+const NOT_EXTRACTED_PENALTY = 15
+
+// Runner-up powers listed per slot
+const MAX_ALTERNATIVES = 3
+
+/**
+ * Key for an account's cube. Seasonal and hardcore heroes each have their own cube.
+ */
+export function getCubeAccountKey(account: AccountRef, hero: Pick<Hero, 'seasonal' | 'hardcore'>): string {
+  const realm = `${hero.seasonal ? 'seasonal' : 'non-seasonal'}-${hero.hardcore ? 'hardcore' : 'softcore'}`
+  return `${account.region}:${account.battletag.toLowerCase()}:${realm}`
+}
+
+class CubePlanner {
+  /**
+   * Catalogued powers a class can extract into a cube slot
+   */
+  getCatalog(heroClass: string, slot: CubeSlot): string[] {
+    const classSlug = heroClass.toLowerCase().replace(' ', '-')
+    return Object.entries(CUBE_POWERS)
+      .filter(([, info]) => info.slot === slot && (!info.classes || info.classes.includes(classSlug)))
+      .map(([name]) => name)
+  }
+
+  /**
+   * Powers extracted on an account, including whatever the hero has cubed right now
+   */
+  getExtracted(accountKey: string, hero?: Hero): string[] {
+    const stored = this.loadAllExtracted()[accountKey] ?? []
+    const cubed = CUBE_SLOTS
+      .map(slot => hero?.cubePowers?.[slot])
+      .filter((power): power is string => !!power)
+    return [...new Set([...stored, ...cubed])]
+  }
+
+  setExtracted(accountKey: string, power: string, extracted: boolean): void {
+    const all = this.loadAllExtracted()
+    const powers = new Set(all[accountKey] ?? [])
+    if (extracted) powers.add(power)
+    else powers.delete(power)
+    all[accountKey] = [...powers].sort()
+
+    try {
+      localStorage.setItem(CUBE_EXTRACTED_KEY, JSON.stringify(all))
+    } catch (e) {
+      console.error('Failed to save extracted cube powers:', e)
+    }
+  }
+
+  /**
+   * Best weapon, armor and jewelry power for the hero's build. Powers the hero
+   * is wearing are never suggested, since a cubed copy of them does nothing.
+   * Pass the account's extracted powers to prefer ones already in the cube.
+   */
+  plan(hero: Hero, target?: TargetBuild | null, extracted?: string[]): CubePlan {
+    const equipped = new Map(Object.entries(hero.items).map(([slot, item]) => [item.name.toLowerCase(), slot]))
+    const extractedSet = extracted ? new Set(extracted.map(p => p.toLowerCase())) : null
+
+    const best = {} as CubePlan['best']
+    const alternatives = {} as CubePlan['alternatives']
+    const conflicts: CubeConflict[] = []
+
+    for (const slot of CUBE_SLOTS) {
+      const cubed = hero.cubePowers?.[slot]
+      const equippedSlot = cubed ? equipped.get(cubed.toLowerCase()) : undefined
+      if (cubed && equippedSlot) {
+        conflicts.push({ slot, power: cubed, equippedSlot })
+      }
+
+      const ranked = [...this.getCandidates(hero, slot, target).values()]
+        .filter(s => !equipped.has(s.power.toLowerCase()))
+        .map(s => {
+          if (!extractedSet) return s
+          const isExtracted = extractedSet.has(s.power.toLowerCase())
+          return { ...s, extracted: isExtracted, score: isExtracted ? s.score : s.score - NOT_EXTRACTED_PENALTY }
+        })
+        .sort((a, b) => b.score - a.score || a.power.localeCompare(b.power))
+
+      best[slot] = ranked[0] ?? null
+      alternatives[slot] = ranked.slice(1, 1 + MAX_ALTERNATIVES)
+    }
+
+    const toExtract = CUBE_SLOTS
+      .map(slot => best[slot])
+      .filter((s): s is CubePowerSuggestion => s?.extracted === false)
+      .map(s => s.power)
+
+    return { best, alternatives, conflicts, toExtract }
+  }
+
+  // ========================================
+  // Private methods
+  // ========================================
+
+  /**
+   * Every reason to cube each power in a slot, keeping the strongest per power
+   */
+  private getCandidates(hero: Hero, slot: CubeSlot, target?: TargetBuild | null): Map<string, CubePowerSuggestion> {
+    const candidates = new Map<string, CubePowerSuggestion>()
+    const consider = (power: string, reason: CubeSuggestionReason, detail: string) => {
+      const key = power.toLowerCase()
+      const score = REASON_SCORE[reason]
+      const existing = candidates.get(key)
+      if (existing && existing.score >= score) return
+      candidates.set(key, { slot, power, effect: LEGENDARY_EFFECTS[power], reason, detail, score })
+    }
+
+    const skills = hero.activeSkills.map(s => s.name).filter(Boolean)
+
+    for (const power of this.getCatalog(hero.heroClass, slot)) {
+      const info = CUBE_POWERS[power]
+      const effect = LEGENDARY_EFFECTS[power]?.toLowerCase() ?? ''
+      const skill = skills.find(name => effect.includes(name.toLowerCase()))
+      if (skill) consider(power, 'skill', `Boosts ${skill}`)
+      else if (info.general) consider(power, 'general', 'Strong in most builds')
+    }
+
+    const cubed = hero.cubePowers?.[slot]
+    if (cubed) consider(cubed, 'current', 'Currently cubed')
+
+    if (slot === 'jewelry') {
+      const unlocked = this.getRoyalGrandeurUnlocks(hero)
+      if (unlocked) consider('Ring of Royal Grandeur', 'set', `Unlocks the ${unlocked}`)
+    }
+
+    if (target) {
+      // Build items the hero doesn't have yet can be cubed until one drops
+      for (const gear of target.gear) {
+        const info = CUBE_POWERS[gear.primaryItem]
+        if (info?.slot === slot) {
+          consider(gear.primaryItem, 'guide-gear', `${target.buildName} gear; cube it until one drops`)
+        }
+      }
+
+      const guidePower = target.kanaisCube?.[slot]
+      if (guidePower) consider(guidePower, 'guide', `${target.buildName} cubes it`)
+    }
+
+    return candidates
+  }
+
+  /**
+   * Set bonus that Ring of Royal Grandeur would unlock, e.g. "6-piece Marauder bonus"
+   */
+  private getRoyalGrandeurUnlocks(hero: Hero): string | null {
+    const counts = new Map<string, number>()
+    for (const item of Object.values(hero.items)) {
+      if (item.setName) counts.set(item.setName, (counts.get(item.setName) ?? 0) + 1)
+    }
+
+    for (const [setName, pieces] of counts) {
+      const entry = getSetCatalogEntry(setName)
+      const thresholds = entry ? getSetThresholds(entry) : [2, 4, 6]
+      const unlocked = thresholds.find(t => t > pieces && t <= getEffectivePieces(pieces, true))
+      if (unlocked) return `${unlocked}-piece ${entry?.name ?? setName} bonus`
+    }
+    return null
+  }
+
+  private loadAllExtracted(): Record<string, string[]> {
+    try {
+      const stored = localStorage.getItem(CUBE_EXTRACTED_KEY)
+      return stored ? JSON.parse(stored) : {}
+    } catch {
+      return {}
+    }
+  }
+}
+
+// Export singleton instance
+export const cubePlanner = new CubePlanner()
@@ -0,0 +1,518 @@
+/**
+ * @file services/damageCalculator.ts
+ * @description Deterministic damage multiplier model built from parsed affixes and gear
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import type { CubePowers, Hero, Item } from '@/types/hero'
+import { CLASS_MAIN_STAT, SLOT_NAMES } from '@/types/hero'
+import type { AffixKind, DamageElement, ParsedAffix } from '@/types/affix'
+import type {
+  DamageBucket,
+  DamageLoadoutResult,
+  DamageModel,
+  DamageProjectionCheck,
+  DamageSwapResult
+} from '@/types/damage'
+import {
+  LEGENDARY_EFFECTS,
+  LEGENDARY_GEM_DAMAGE,
+  findSetForItem,
+  getActiveSetBonuses,
+  hasRingOfRoyalGrandeur
+} from '@/data/d3Reference'
+import { getItemAffixes, sumAffixValues } from './affixParser'
+import type { BuildRecommendation } from './claudeAnalysis'
+
+// Main stat a level 70 hero has before gear and paragon
+const BASE_MAIN_STAT = 217
+
+// Claimed and modeled multipliers further apart than this factor are flagged
+const DIVERGENCE_FACTOR = 2
+
+// Weapon slots whose DPS feeds the weapon damage term
+const WEAPON_SLOTS = ['mainHand', 'offHand']
+
+/** Stats that come from outside gear (base, paragon, skills), derived from the sheet */
+interface SheetOffsets {
+  mainStat: number
+  critChance: number
+  critDamage: number
+}
+
+export interface DamageModelOptions {
+  /** Element to model the elemental bucket for (defaults to the most invested one) */
+  element?: DamageElement
+  /** Skill to model the skill damage bucket for (defaults to the most invested one) */
+  skill?: string
+}
+
+/**
+ * Read the largest "% increased damage" bonus out of effect text.
+ * Ranges ("75-100%") resolve to their upper bound, as cubed powers roll max.
+ */
+function parseDamageBonus(text?: string): number | null {
+  if (!text) return null
+
+  const patterns = [
+    /(\d[\d,]*(?:\.\d+)?)(?:\s*[-–]\s*(\d[\d,]*(?:\.\d+)?))?%\s+(?:increased|more|additional|bonus)\s+damage/gi,
+    /damage(?:\s+dealt)?\s+(?:is\s+)?increased\s+by\s+(\d[\d,]*(?:\.\d+)?)(?:\s*[-–]\s*(\d[\d,]*(?:\.\d+)?))?%/gi
+  ]
+
+  let best: number | null = null
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const value = Number((match[2] ?? match[1]).replace(/,/g, ''))
+      if (!Number.isNaN(value) && (best === null || value > best)) {
+        best = value
+      }
+    }
+  }
+  return best
+}
+
+/**
+ * Read a multiplier out of a claim like "~8x", "2-3x" or "+45%"
+ */
+export function parseClaimedMultiplier(claim: string): number | null {
+  const numbers = (claim.match(/\d+(?:\.\d+)?/g) || []).map(Number)
+  if (numbers.length === 0) return null
+
+  const average = numbers.reduce((a, b) => a + b, 0) / numbers.length
+  if (/%/.test(claim)) return 1 + average / 100
+  return /x/i.test(claim) ? average : null
+}
+
+/**
+ * Stand-in item for a recommendation that only names the item.
+ * Keeps the current item's affixes and swaps in the named item's legendary power and set.
+ */
+export function itemFromName(name: string, slot: string, current?: Item): Item {
+  const set = findSetForItem(name)
+  const base: Item = current ?? {
+    slot: SLOT_NAMES[slot] || slot,
+    name,
+    itemType: '',
+    quality: 'legendary',
+    ancientRank: 'normal',
+    primaryStats: [],
+    secondaryStats: [],
+    primaryAffixes: [],
+    secondaryAffixes: [],
+    gems: []
+  }
+
+  return {
+    ...base,
+    name,
+    quality: set ? 'set' : 'legendary',
+    setName: set?.name,
+    legendaryPower: LEGENDARY_EFFECTS[name]
+  }
+}
+
+/**
+ * Sum an affix per group (element or skill) and return the best group
+ */
+function bestAffixGroup(
+  items: Item[],
+  kind: AffixKind,
+  groupOf: (affix: ParsedAffix) => string | undefined,
+  preferred?: string
+): { group?: string; value: number } {
+  const totals = new Map<string, number>()
+  for (const item of items) {
+    for (const affix of getItemAffixes(item)) {
+      const group = groupOf(affix)
+      if (affix.kind === kind && group && affix.value !== undefined) {
+        totals.set(group, (totals.get(group) || 0) + affix.value)
+      }
+    }
+  }
+
+  if (preferred) {
+    const key = [...totals.keys()].find(k => k.toLowerCase() === preferred.toLowerCase())
+    return { group: preferred, value: key ? totals.get(key)! : 0 }
+  }
+
+  const best = [...totals.entries()].sort((a, b) => b[1] - a[1])[0]
+  return best ? { group: best[0], value: best[1] } : { value: 0 }
+}
+
+class DamageCalculator {
+  /**
+   * Model a hero's damage as multiplicative buckets
+   */
+  calculate(hero: Hero, options: DamageModelOptions = {}): DamageModel {
+    return this.buildModel(hero, hero.items, hero.cubePowers, this.getSheetOffsets(hero), options)
+  }
+
+  /**
+   * Damage change from replacing the item in a slot.
+   * A name-only replacement keeps the current item's affixes and swaps its legendary power.
+   */
+  compareSwap(
+    hero: Hero,
+    slot: string,
+    replacement: Item | string,
+    options: DamageModelOptions = {}
+  ): DamageSwapResult {
+    const offsets = this.getSheetOffsets(hero)
+    const before = this.buildModel(hero, hero.items, hero.cubePowers, offsets, options)
+
+    const current = hero.items[slot]
+    const next = typeof replacement === 'string'
+      ? itemFromName(replacement, slot, current)
+      : replacement
+    const items = { ...hero.items, [slot]: next }
+
+    // Keep the same element/skill focus so the comparison is like-for-like
+    const after = this.buildModel(hero, items, hero.cubePowers, offsets, {
+      element: options.element ?? before.element,
+      skill: options.skill ?? before.skill
+    })
+
+    return this.toSwapResult(slot, current?.name, next.name, before, after)
+  }
+
+  /**
+   * Damage change from replacing a Kanai's Cube power
+   */
+  compareCubeSwap(
+    hero: Hero,
+    cubeSlot: keyof CubePowers,
+    power: string,
+    options: DamageModelOptions = {}
+  ): DamageSwapResult {
+    const offsets = this.getSheetOffsets(hero)
+    const before = this.buildModel(hero, hero.items, hero.cubePowers, offsets, options)
+    const cubePowers = { ...hero.cubePowers, [cubeSlot]: power }
+    const after = this.buildModel(hero, hero.items, cubePowers, offsets, {
+      element: options.element ?? before.element,
+      skill: options.skill ?? before.skill
+    })
+
+    return this.toSwapResult(`cube:${cubeSlot}`, hero.cubePowers?.[cubeSlot], power, before, after)
+  }
+
+  /**
+   * Damage change from a modified copy of the hero (items, cube powers, gems).
+   * Sheet offsets come from the real hero so only the gear differences count.
+   */
+  compareLoadout(hero: Hero, variant: Hero, options: DamageModelOptions = {}): DamageLoadoutResult {
+    const offsets = this.getSheetOffsets(hero)
+    const before = this.buildModel(hero, hero.items, hero.cubePowers, offsets, options)
+    const after = this.buildModel(variant, variant.items, variant.cubePowers, offsets, {
+      element: options.element ?? before.element,
+      skill: options.skill ?? before.skill
+    })
+
+    return {
+      before,
+      after,
+      changePercent: before.damageIndex > 0 ? (after.damageIndex / before.damageIndex - 1) * 100 : 0,
+      changedBuckets: this.diffBuckets(before, after)
+    }
+  }
+
+  /**
+   * Apply every recommended item and cube change and compare the result
+   * with the damage multiplier Claude claimed
+   */
+  checkProjection(hero: Hero, recommendation: BuildRecommendation): DamageProjectionCheck | null {
+    const claim = recommendation.projectedImprovements?.damage.estimatedMultiplier
+    const offsets = this.getSheetOffsets(hero)
+    const before = this.buildModel(hero, hero.items, hero.cubePowers, offsets, {})
+
+    const items = { ...hero.items }
+    const swaps: DamageSwapResult[] = []
+
+    for (const rec of recommendation.gear.items) {
+      // Multi-slot recommendations ("waist,legs") describe sets, covered by their pieces
+      if (!rec.slot || rec.slot.includes(',') || !rec.item) continue
+      if (items[rec.slot]?.name.toLowerCase() === rec.item.toLowerCase()) continue
+
+      swaps.push(this.compareSwap({ ...hero, items: { ...items } }, rec.slot, rec.item))
+      items[rec.slot] = itemFromName(rec.item, rec.slot, items[rec.slot])
+    }
+
+    const cubePowers: CubePowers = { ...hero.cubePowers }
+    for (const cubeSlot of ['weapon', 'armor', 'jewelry'] as const) {
+      const power = recommendation.gear.cubePowers?.[cubeSlot]?.name
+      if (!power || power === cubePowers[cubeSlot]) continue
+
+      swaps.push(this.compareCubeSwap({ ...hero, items: { ...items }, cubePowers: { ...cubePowers } }, cubeSlot, power))
+      cubePowers[cubeSlot] = power
+    }
+
+    if (swaps.length === 0 && !claim) return null
+
+    const after = this.buildModel(hero, items, cubePowers, offsets, {
+      element: before.element,
+      skill: before.skill
+    })
+    const modelMultiplier = before.damageIndex > 0 ? after.damageIndex / before.damageIndex : 1
+    const claimedMultiplier = claim ? parseClaimedMultiplier(claim) : null
+
+    const diverges = claimedMultiplier !== null && (
+      claimedMultiplier > modelMultiplier * DIVERGENCE_FACTOR ||
+      claimedMultiplier < modelMultiplier / DIVERGENCE_FACTOR
+    )
+
+    return { modelMultiplier, claimedMultiplier, diverges, swaps }
+  }
+
+  // ========================================
+  // Private methods
+  // ========================================
+
+  /**
+   * Stats the sheet shows beyond what gear affixes account for (base, paragon, passives)
+   */
+  private getSheetOffsets(hero: Hero): SheetOffsets {
+    const items = Object.values(hero.items)
+    const mainStatKind = CLASS_MAIN_STAT[hero.heroClass] ?? 'strength'
+    const stats = hero.stats
+
+    return {
+      mainStat: stats ? stats[mainStatKind] - sumAffixValues(items, mainStatKind) : BASE_MAIN_STAT,
+      critChance: stats ? stats.critChance * 100 - sumAffixValues(items, 'critChance') : 5,
+      critDamage: stats ? stats.critDamage * 100 - sumAffixValues(items, 'critDamage') : 50
+    }
+  }
+
+  private buildModel(
+    hero: Hero,
+    itemMap: Record<string, Item>,
+    cubePowers: CubePowers | undefined,
+    offsets: SheetOffsets,
+    options: DamageModelOptions
+  ): DamageModel {
+    const items = Object.values(itemMap)
+    const buckets: DamageBucket[] = []
+    const mainStatKind = CLASS_MAIN_STAT[hero.heroClass] ?? 'strength'
+
+    // Main stat: +1% damage per point
+    const mainStat = Math.max(0, offsets.mainStat + sumAffixValues(items, mainStatKind))
+    buckets.push({
+      key: 'mainStat',
+      category: 'mainStat',
+      label: 'Main Stat',
+      multiplier: 1 + mainStat / 100,
+      source: `${Math.round(mainStat).toLocaleString()} ${mainStatKind}`
+    })
+
+    // Crit: 1 + CHC x CHD
+    const critChance = Math.min(100, Math.max(0, offsets.critChance + sumAffixValues(items, 'critChance')))
+    const critDamage = Math.max(0, offsets.critDamage + sumAffixValues(items, 'critDamage'))
+    buckets.push({
+      key: 'crit',
+      category: 'crit',
+      label: 'Critical Hits',
+      multiplier: 1 + (critChance / 100) * (critDamage / 100),
+      source: `${critChance.toFixed(1)}% CHC / ${critDamage.toFixed(0)}% CHD`
+    })
+
+    // Attack speed from non-weapon items (weapon speed is already in weapon DPS)
+    // Item.slot holds the display name, so filter on the slot keys
+    const nonWeaponItems = Object.entries(itemMap)
+      .filter(([slot]) => !WEAPON_SLOTS.includes(slot))
+      .map(([, item]) => item)
+    const attackSpeed = sumAffixValues(nonWeaponItems, 'attackSpeed')
+    buckets.push({
+      key: 'attackSpeed',
+      category: 'attackSpeed',
+      label: 'Attack Speed',
+      multiplier: 1 + attackSpeed / 100,
+      source: `${attackSpeed.toFixed(1)}% IAS`
+    })
+
+    const element = bestAffixGroup(items, 'elementalDamage', a => a.element, options.element)
+    buckets.push({
+      key: 'elemental',
+      category: 'elemental',
+      label: element.group ? `${element.group.charAt(0).toUpperCase()}${element.group.slice(1)} Damage` : 'Elemental Damage',
+      multiplier: 1 + element.value / 100,
+      source: `${element.value}%`
+    })
+
+    const skill = bestAffixGroup(items, 'skillDamage', a => a.skill, options.skill)
+    buckets.push({
+      key: 'skill',
+      category: 'skill',
+      label: skill.group ? `${skill.group} Damage` : 'Skill Damage',
+      multiplier: 1 + skill.value / 100,
+      source: `${skill.value}%`
+    })
+
+    const eliteDamage = sumAffixValues(items, 'eliteDamage')
+    if (eliteDamage > 0) {
+      buckets.push({
+        key: 'elite',
+        category: 'elite',
+        label: 'Elite Damage',
+        multiplier: 1 + eliteDamage / 100,
+        source: `${eliteDamage}%`,
+        conditional: true
+      })
+    }
+
+    buckets.push(...this.legendaryBuckets(items))
+    buckets.push(...this.setBuckets(itemMap, cubePowers))
+    buckets.push(...this.cubeBuckets(items, cubePowers))
+    buckets.push(...this.gemBuckets(items))
+
+    // Dual wielding alternates weapons, so average their DPS as breakpointCalculator does for APS
+    const weaponDpsValues = WEAPON_SLOTS
+      .map(slot => itemMap[slot]?.dps || 0)
+      .filter(dps => dps > 0)
+    const weaponDps = weaponDpsValues.length > 0
+      ? weaponDpsValues.reduce((a, b) => a + b, 0) / weaponDpsValues.length
+      : 0
+
+    const multiplier = buckets
+      .filter(b => !b.conditional)
+      .reduce((product, b) => product * b.multiplier, 1)
+    const eliteMultiplier = buckets
+      .filter(b => !b.conditional || b.category === 'elite')
+      .reduce((product, b) => product * b.multiplier, 1)
+
+    return {
+      heroClass: hero.heroClass,
+      element: element.group as DamageElement | undefined,
+      skill: skill.group,
+      weaponDps,
+      buckets,
+      multiplier,
+      eliteMultiplier,
+      damageIndex: (weaponDps || 1) * multiplier
+    }
+  }
+
+  private legendaryBuckets(items: Item[]): DamageBucket[] {
+    const buckets: DamageBucket[] = []
+    for (const item of items) {
+      const bonus = parseDamageBonus(item.legendaryPower)
+      if (bonus === null) continue
+      buckets.push({
+        key: `legendary:${item.name}`,
+        category: 'legendary',
+        label: item.name,
+        multiplier: 1 + bonus / 100,
+        source: `${bonus}%`
+      })
+    }
+    return buckets
+  }
+
+  private setBuckets(itemMap: Record<string, Item>, cubePowers?: CubePowers): DamageBucket[] {
+    const counts = new Map<string, number>()
+    for (const item of Object.values(itemMap)) {
+      if (item.setName) counts.set(item.setName, (counts.get(item.setName) || 0) + 1)
+    }
+
+    const hasRoRG = hasRingOfRoyalGrandeur(itemMap, cubePowers)
+    const buckets: DamageBucket[] = []
+
+    for (const [setName, pieces] of counts) {
+      for (const tier of getActiveSetBonuses(setName, pieces, hasRoRG)) {
+        const bonus = parseDamageBonus(tier.bonus)
+        if (bonus === null) continue
+        buckets.push({
+          key: `set:${setName}:${tier.pieces}`,
+          category: 'set',
+          label: `${setName} (${tier.pieces})`,
+          multiplier: 1 + bonus / 100,
+          source: `${bonus}%`
+        })
+      }
+    }
+    return buckets
+  }
+
+  private cubeBuckets(items: Item[], cubePowers?: CubePowers): DamageBucket[] {
+    const equipped = new Set(items.map(i => i.name.toLowerCase()))
+    const buckets: DamageBucket[] = []
+
+    for (const power of [cubePowers?.weapon, cubePowers?.armor, cubePowers?.jewelry]) {
+      // The same legendary power doesn't stack when equipped and cubed
+      if (!power || equipped.has(power.toLowerCase())) continue
+      const bonus = parseDamageBonus(LEGENDARY_EFFECTS[power])
+      if (bonus === null) continue
+      buckets.push({
+        key: `cube:${power}`,
+        category: 'cube',
+        label: `${power} (Cube)`,
+        multiplier: 1 + bonus / 100,
+        source: `${bonus}%`
+      })
+    }
+    return buckets
+  }
+
+  private gemBuckets(items: Item[]): DamageBucket[] {
+    const buckets: DamageBucket[] = []
+    for (const item of items) {
+      for (const gem of item.gems || []) {
+        const info = gem.isLegendary ? LEGENDARY_GEM_DAMAGE[gem.name] : undefined
+        const rank = gem.rank ?? 0
+        if (!info || rank < (info.minRank ?? 0)) continue
+
+        const bonus = (info.base + info.perRank * rank) * (info.stacks ?? 1)
+        buckets.push({
+          key: `gem:${gem.name}`,
+          category: 'gem',
+          label: `${gem.name} (Rank ${rank})`,
+          multiplier: 1 + bonus,
+          source: info.note,
+          conditional: info.conditional
+        })
+      }
+    }
+    return buckets
+  }
+
+  private toSwapResult(
+    slot: string,
+    fromItem: string | undefined,
+    toItem: string,
+    before: DamageModel,
+    after: DamageModel
+  ): DamageSwapResult {
+    return {
+      slot,
+      fromItem,
+      toItem,
+      before: before.damageIndex,
+      after: after.damageIndex,
+      changePercent: before.damageIndex > 0
+        ? (after.damageIndex / before.damageIndex - 1) * 100
+        : 0,
+      changedBuckets: this.diffBuckets(before, after)
+    }
+  }
+
+  /**
+   * Buckets whose multiplier differs between two models
+   */
+  private diffBuckets(before: DamageModel, after: DamageModel): DamageLoadoutResult['changedBuckets'] {
+    const beforeBuckets = new Map(before.buckets.map(b => [b.key, b]))
+    const afterBuckets = new Map(after.buckets.map(b => [b.key, b]))
+    const keys = new Set([...beforeBuckets.keys(), ...afterBuckets.keys()])
+
+    return [...keys]
+      .map(key => ({
+        label: (afterBuckets.get(key) ?? beforeBuckets.get(key))!.label,
+        before: beforeBuckets.get(key)?.multiplier ?? 1,
+        after: afterBuckets.get(key)?.multiplier ?? 1
+      }))
+      .filter(b => Math.abs(b.after - b.before) > 1e-6)
+  }
+}
+
+// Export singleton instance
+export const damageCalculator = new DamageCalculator()
@@ -0,0 +1,198 @@
+/**
+ * @file services/gemPlanner.ts
+ * @description Legendary gem upgrade planner: Greater Rift runs, guaranteed levels and upgrade order
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import type { Hero } from '@/types/hero'
+import type { MaxrollGem } from '@/types/maxroll'
+import type { GemPlan, GemPlanEntry, GemPlanOptions, GemTarget, GemUpgradeStep } from '@/types/gems'
+import {
+  GEM_EMPOWERED_ATTEMPTS,
+  GEM_GUARANTEED_LEVEL_GAP,
+  GEM_MAX_RANK,
+  GEM_SECONDARY_RANK,
+  GEM_UPGRADE_ATTEMPTS,
+  GEM_UPGRADE_CHANCE
+} from '@/data/d3Reference'
+
+// LocalStorage key for user-entered target ranks, per hero id
+const GEM_TARGETS_KEY = 'dyerb-gem-targets'
+
+// Target rank when neither the user nor a guide sets one
+const DEFAULT_TARGET_RANK = 100
+
+// Ranks gems at the same level take turns in
+const RANK_BLOCK = 10
+
+/**
+ * Chance to upgrade a gem of a rank in a Greater Rift of a level
+ */
+export function getUpgradeChance(rank: number, riftLevel: number): number {
+  const gap = riftLevel - rank
+  if (gap >= GEM_GUARANTEED_LEVEL_GAP) return 1
+  return GEM_UPGRADE_CHANCE[gap] ?? 0
+}
+
+/**
+ * Lowest Greater Rift level that guarantees upgrading a gem of this rank
+ */
+export function getGuaranteedLevel(rank: number): number {
+  return rank + GEM_GUARANTEED_LEVEL_GAP
+}
+
+class GemPlanner {
+  /**
+   * Current and target ranks for a hero's gems. User targets win over guide targets.
+   */
+  getTargets(hero: Hero, guideGems: MaxrollGem[] = []): GemTarget[] {
+    const userTargets = this.loadUserTargets(hero.heroId)
+    const guideRanks = new Map(guideGems.map(g => [g.name.toLowerCase(), g.targetRank]))
+
+    return hero.legendaryGems.map(gem => {
+      const currentRank = gem.rank ?? 0
+      const user = userTargets[gem.name]
+      const guide = guideRanks.get(gem.name.toLowerCase())
+
+      const [target, source]: [number, GemTarget['source']] = user !== undefined
+        ? [user, 'user']
+        : guide !== undefined
+          ? [guide, 'guide']
+          : [DEFAULT_TARGET_RANK, 'default']
+
+      return {
+        name: gem.name,
+        currentRank,
+        targetRank: Math.min(GEM_MAX_RANK, Math.max(currentRank, target)),
+        source
+      }
+    })
+  }
+
+  /**
+   * Runs, guaranteed levels and upgrade order to bring every gem to its target
+   */
+  plan(targets: GemTarget[], options: GemPlanOptions): GemPlan {
+    const gems = targets.map(t => this.planGem(t, options.pushLevel))
+    const totalUpgrades = gems.reduce((sum, g) => sum + g.upgrades, 0)
+
+    let expectedRuns: number | undefined
+    if (options.pushLevel !== undefined) {
+      const expectedAttempts = gems.reduce((sum, g) => sum + (g.expectedAttempts ?? 0), 0)
+      const perRun = options.empowered ? GEM_EMPOWERED_ATTEMPTS : GEM_UPGRADE_ATTEMPTS
+      expectedRuns = Number.isFinite(expectedAttempts) ? Math.ceil(expectedAttempts / perRun) : Infinity
+    }
+
+    return {
+      gems,
+      steps: this.getUpgradeOrder(targets),
+      totalUpgrades,
+      empoweredRuns: Math.ceil(totalUpgrades / GEM_EMPOWERED_ATTEMPTS),
+      unempoweredRuns: Math.ceil(totalUpgrades / GEM_UPGRADE_ATTEMPTS),
+      expectedRuns,
+      pushLevel: options.pushLevel,
+      empowered: options.empowered
+    }
+  }
+
+  setUserTarget(heroId: number, gemName: string, targetRank: number | null): void {
+    const all = this.loadAllUserTargets()
+    const targets = all[heroId] ?? {}
+    if (targetRank === null) delete targets[gemName]
+    else targets[gemName] = targetRank
+    all[heroId] = targets
+
+    try {
+      localStorage.setItem(GEM_TARGETS_KEY, JSON.stringify(all))
+    } catch (e) {
+      console.error('Failed to save gem targets:', e)
+    }
+  }
+
+  // ========================================
+  // Private methods
+  // ========================================
+
+  private planGem(target: GemTarget, pushLevel?: number): GemPlanEntry {
+    const upgrades = target.targetRank - target.currentRank
+
+    let expectedAttempts: number | undefined
+    if (pushLevel !== undefined) {
+      expectedAttempts = 0
+      for (let rank = target.currentRank; rank < target.targetRank; rank++) {
+        const chance = getUpgradeChance(rank, pushLevel)
+        expectedAttempts += chance > 0 ? 1 / chance : Infinity
+      }
+    }
+
+    return {
+      ...target,
+      upgrades,
+      guaranteedLevel: upgrades > 0 ? getGuaranteedLevel(target.targetRank - 1) : getGuaranteedLevel(target.currentRank),
+      expectedAttempts
+    }
+  }
+
+  /**
+   * Upgrade order: unlock every gem's secondary effect first, then always upgrade
+   * the lowest gem so each clear keeps a guaranteed chance at the lowest level
+   */
+  private getUpgradeOrder(targets: GemTarget[]): GemUpgradeStep[] {
+    const ranks = targets.map(t => t.currentRank)
+    const steps: GemUpgradeStep[] = []
+
+    for (;;) {
+      const open = targets
+        .map((t, i) => ({ index: i, rank: ranks[i], target: t.targetRank }))
+        .filter(g => g.rank < g.target)
+      if (open.length === 0) break
+
+      // Earlier gems win ties, so the given order doubles as priority
+      const belowSecondary = open.filter(g => g.rank < GEM_SECONDARY_RANK)
+      const pool = belowSecondary.length > 0 ? belowSecondary : open
+      const pick = pool.reduce((low, g) => g.rank < low.rank ? g : low)
+      const reason: GemUpgradeStep['reason'] = belowSecondary.length > 0 ? 'secondary' : 'lowest'
+
+      // Upgrade until the gem catches up with the next gem above it, or else to the next
+      // multiple of ten, so gems at the same rank take turns in blocks
+      const above = pool.map(g => g.rank).filter(rank => rank > pick.rank)
+      const milestone = above.length > 0
+        ? Math.min(...above)
+        : (Math.floor(pick.rank / RANK_BLOCK) + 1) * RANK_BLOCK
+      let stop = Math.min(pick.target, milestone)
+      if (reason === 'secondary') stop = Math.min(stop, GEM_SECONDARY_RANK)
+
+      const last = steps[steps.length - 1]
+      const gem = targets[pick.index].name
+      if (last && last.gem === gem && last.reason === reason) {
+        last.toRank = stop
+        last.guaranteedLevel = getGuaranteedLevel(stop - 1)
+      } else {
+        steps.push({ gem, fromRank: pick.rank, toRank: stop, guaranteedLevel: getGuaranteedLevel(stop - 1), reason })
+      }
+      ranks[pick.index] = stop
+    }
+
+    return steps
+  }
+
+  private loadUserTargets(heroId: number): Record<string, number> {
+    return this.loadAllUserTargets()[heroId] ?? {}
+  }
+
+  private loadAllUserTargets(): Record<number, Record<string, number>> {
+    try {
+      const stored = localStorage.getItem(GEM_TARGETS_KEY)
+      return stored ? JSON.parse(stored) : {}
+    } catch {
+      return {}
+    }
+  }
+}
+
+// Export singleton instance
+export const gemPlanner = new GemPlanner()
@@ -0,0 +1,234 @@
+/**
+ * @file services/heroHistory.ts
+ * @description IndexedDB-backed hero snapshot history and snapshot diffing
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb'
+import type { Hero, HeroStats, Item } from '@/types/hero'
+import type {
+  HeroSnapshot,
+  HeroDiff,
+  ItemChange,
+  GemChange,
+  StatDelta
+} from '@/types/history'
+
+const DB_NAME = 'dyerb-history'
+const DB_VERSION = 1
+
+// Oldest snapshots beyond this are pruned, per hero
+const MAX_SNAPSHOTS_PER_HERO = 50
+
+interface HistoryDB extends DBSchema {
+  snapshots: {
+    key: number
+    value: HeroSnapshot
+    indexes: { 'by-hero': number }
+  }
+}
+
+// Summary stats tracked on every hero
+const SUMMARY_STATS: { key: 'damage' | 'toughness' | 'recovery' | 'life'; label: string }[] = [
+  { key: 'damage', label: 'Damage' },
+  { key: 'toughness', label: 'Toughness' },
+  { key: 'recovery', label: 'Recovery' },
+  { key: 'life', label: 'Life' }
+]
+
+// Character sheet stats tracked when both snapshots have them
+const SHEET_STATS: { key: keyof HeroStats; label: string; isPercent: boolean }[] = [
+  { key: 'strength', label: 'Strength', isPercent: false },
+  { key: 'dexterity', label: 'Dexterity', isPercent: false },
+  { key: 'intelligence', label: 'Intelligence', isPercent: false },
+  { key: 'vitality', label: 'Vitality', isPercent: false },
+  { key: 'attackSpeed', label: 'Attacks per Second', isPercent: false },
+  { key: 'critChance', label: 'Critical Hit Chance', isPercent: true },
+  { key: 'critDamage', label: 'Critical Hit Damage', isPercent: true },
+  { key: 'damageIncrease', label: 'Damage Increase', isPercent: true },
+  { key: 'armor', label: 'Armor', isPercent: false },
+  { key: 'damageReduction', label: 'Damage Reduction', isPercent: true },
+  { key: 'physicalResist', label: 'Physical Resistance', isPercent: false },
+  { key: 'lifeOnHit', label: 'Life per Hit', isPercent: false },
+  { key: 'primaryResource', label: 'Max Primary Resource', isPercent: false }
+]
+
+class HeroHistoryService {
+  private dbPromise: Promise<IDBPDatabase<HistoryDB>> | null = null
+
+  private getDB(): Promise<IDBPDatabase<HistoryDB>> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDB<HistoryDB>(DB_NAME, DB_VERSION, {
+        upgrade(db) {
+          const store = db.createObjectStore('snapshots', {
+            keyPath: 'id',
+            autoIncrement: true
+          })
+          store.createIndex('by-hero', 'heroId')
+        }
+      })
+    }
+    return this.dbPromise
+  }
+
+  /**
+   * Persist a freshly fetched hero as a timestamped snapshot. Returns null when
+   * nothing tracked changed since the latest snapshot, so revisits don't pile up.
+   */
+  async saveSnapshot(hero: Hero): Promise<HeroSnapshot | null> {
+    const db = await this.getDB()
+    const existing = await this.getSnapshots(hero.heroId)
+    const latest = existing[existing.length - 1]
+    if (latest && this.fingerprint(latest.hero) === this.fingerprint(hero)) {
+      return null
+    }
+
+    const snapshot: HeroSnapshot = {
+      heroId: hero.heroId,
+      capturedAt: Date.now(),
+      // Round-trip through JSON so reactive proxies never reach structured clone
+      hero: JSON.parse(JSON.stringify(hero))
+    }
+    snapshot.id = await db.add('snapshots', snapshot)
+
+    const excess = existing.length + 1 - MAX_SNAPSHOTS_PER_HERO
+    if (excess > 0) {
+      const tx = db.transaction('snapshots', 'readwrite')
+      await Promise.all([...existing.slice(0, excess).map(old => tx.store.delete(old.id!)), tx.done])
+    }
+    return snapshot
+  }
+
+  /**
+   * All snapshots for a hero, oldest first
+   */
+  async getSnapshots(heroId: number): Promise<HeroSnapshot[]> {
+    const db = await this.getDB()
+    const snapshots = await db.getAllFromIndex('snapshots', 'by-hero', heroId)
+    return snapshots.sort((a, b) => a.capturedAt - b.capturedAt)
+  }
+
+  async deleteSnapshot(id: number): Promise<void> {
+    const db = await this.getDB()
+    await db.delete('snapshots', id)
+  }
+
+  async clearHeroHistory(heroId: number): Promise<void> {
+    const db = await this.getDB()
+    const tx = db.transaction('snapshots', 'readwrite')
+    const keys = await tx.store.index('by-hero').getAllKeys(heroId)
+    await Promise.all([...keys.map(key => tx.store.delete(key)), tx.done])
+  }
+
+  /**
+   * Compute what changed between two snapshots of the same hero
+   */
+  diffSnapshots(from: HeroSnapshot, to: HeroSnapshot): HeroDiff {
+    return {
+      from,
+      to,
+      levelGained: to.hero.level - from.hero.level,
+      paragonGained: to.hero.paragonLevel - from.hero.paragonLevel,
+      itemChanges: this.diffItems(from.hero.items, to.hero.items),
+      gemChanges: this.diffGems(from.hero, to.hero),
+      statDeltas: this.diffStats(from.hero, to.hero)
+    }
+  }
+
+  /**
+   * Everything a snapshot tracks: level, paragon, gear (with rolls and gems),
+   * legendary gems, skills, cube powers and stats
+   */
+  private fingerprint(hero: Hero): string {
+    const items = Object.keys(hero.items).sort().map(slot => {
+      const item = hero.items[slot]
+      return [slot, item.name, item.ancientRank, item.primaryStats, item.secondaryStats, item.gems.map(g => [g.name, g.rank])]
+    })
+    return JSON.stringify([
+      hero.level,
+      hero.paragonLevel,
+      items,
+      hero.legendaryGems.map(g => [g.name, g.rank]),
+      hero.activeSkills.map(s => [s.slug, s.rune]),
+      hero.passiveSkills.map(s => s.slug),
+      hero.cubePowers ?? null,
+      SUMMARY_STATS.map(({ key }) => hero[key] ?? 0),
+      hero.stats ?? null
+    ])
+  }
+
+  private isSameItem(a: Item, b: Item): boolean {
+    return a.name === b.name && a.ancientRank === b.ancientRank
+  }
+
+  private diffItems(before: Record<string, Item>, after: Record<string, Item>): ItemChange[] {
+    const changes: ItemChange[] = []
+    const slots = new Set([...Object.keys(before), ...Object.keys(after)])
+
+    for (const slot of slots) {
+      const prev = before[slot]
+      const next = after[slot]
+
+      if (prev && !next) {
+        changes.push({ slot, kind: 'unequipped', before: prev })
+      } else if (!prev && next) {
+        changes.push({ slot, kind: 'equipped', after: next })
+      } else if (prev && next && !this.isSameItem(prev, next)) {
+        changes.push({ slot, kind: 'replaced', before: prev, after: next })
+      }
+    }
+
+    return changes
+  }
+
+  private diffGems(before: Hero, after: Hero): GemChange[] {
+    const changes: GemChange[] = []
+    const prevRanks = new Map(before.legendaryGems.map(g => [g.name, g.rank ?? 0]))
+    const nextRanks = new Map(after.legendaryGems.map(g => [g.name, g.rank ?? 0]))
+
+    for (const [name, toRank] of nextRanks) {
+      const fromRank = prevRanks.get(name)
+      if (fromRank === undefined) {
+        changes.push({ name, kind: 'added', toRank })
+      } else if (toRank > fromRank) {
+        changes.push({ name, kind: 'rankUp', fromRank, toRank })
+      }
+    }
+
+    for (const [name, fromRank] of prevRanks) {
+      if (!nextRanks.has(name)) {
+        changes.push({ name, kind: 'removed', fromRank })
+      }
+    }
+
+    return changes
+  }
+
+  private diffStats(before: Hero, after: Hero): StatDelta[] {
+    const deltas: StatDelta[] = []
+
+    const push = (key: string, label: string, prev: number, next: number, isPercent: boolean) => {
+      if (prev !== next) {
+        deltas.push({ key, label, before: prev, after: next, delta: next - prev, isPercent })
+      }
+    }
+
+    for (const { key, label } of SUMMARY_STATS) {
+      push(key, label, before[key] ?? 0, after[key] ?? 0, false)
+    }
+
+    if (before.stats && after.stats) {
+      for (const { key, label, isPercent } of SHEET_STATS) {
+        push(key, label, before.stats[key], after.stats[key], isPercent)
+      }
+    }
+
+    return deltas
+  }
+}
+
+export const heroHistoryService = new HeroHistoryService()
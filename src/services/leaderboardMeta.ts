@@ -0,0 +1,322 @@
+/**
+ * @file services/leaderboardMeta.ts
+ * @description Meta build statistics derived from top Greater Rift leaderboard heroes
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import { battleNetService } from './battlenet'
+import type { Hero } from '@/types/hero'
+import { GEAR_SLOTS, SLOT_NAMES } from '@/types/hero'
+import type { LeaderboardMetaUsage, UsageShare } from '@/types/leaderboard'
+import { DEFAULT_LEADERBOARD_SAMPLE_SIZE } from '@/types/leaderboard'
+import type { MetaBuildReference, MaxrollCacheEntry } from '@/types/maxroll'
+
+// Leaderboards only move daily, so a day-old sample is fine
+const META_TTL = 24 * 60 * 60 * 1000 // 24 hours
+
+// LocalStorage key prefix
+const CACHE_KEY_PREFIX = 'leaderboard-meta-'
+
+// Samples missing more heroes than this aren't cached, so the next request tries again
+const MAX_CACHED_FAILURE_SHARE = 0.25
+
+// Share above which an item counts as a core item for the class
+const CORE_ITEM_SHARE = 0.5
+
+export interface LeaderboardMetaOptions {
+  topN?: number
+  hardcore?: boolean
+}
+
+/**
+ * Tally occurrences and convert them into usage shares, most used first
+ */
+function toShares(counts: Map<string, number>, sampleSize: number): UsageShare[] {
+  return [...counts.entries()]
+    .map(([name, count]) => ({ name, count, share: sampleSize > 0 ? count / sampleSize : 0 }))
+    .sort((a, b) => b.count - a.count)
+}
+
+function increment(counts: Map<string, number>, key?: string): void {
+  if (!key) return
+  counts.set(key, (counts.get(key) || 0) + 1)
+}
+
+class LeaderboardMetaService {
+  /**
+   * Get usage statistics for a class from the current season's top clears
+   */
+  async getClassMeta(heroClass: string, options: LeaderboardMetaOptions = {}): Promise<LeaderboardMetaUsage | null> {
+    const topN = options.topN ?? DEFAULT_LEADERBOARD_SAMPLE_SIZE
+    const hardcore = options.hardcore ?? false
+    const classSlug = heroClass.toLowerCase().replace(' ', '-')
+    const cacheKey = `${CACHE_KEY_PREFIX}${classSlug}-${hardcore ? 'hc' : 'sc'}-${topN}`
+
+    const cached = this.getCached(cacheKey)
+    if (cached) return cached
+
+    try {
+      const index = await battleNetService.getLeaderboardIndex('season')
+      const leaderboard = await battleNetService.getClassLeaderboard('season', index.current, classSlug, hardcore)
+
+      const entries = leaderboard.entries.filter(e => e.heroId).slice(0, topN)
+      // Two proxy calls per hero outrun the proxy's rate limit, so the batches wait out its windows
+      const { heroes, failed } = await battleNetService.getFullHeroesByRef(
+        entries.map(e => ({ heroId: e.heroId!, account: e.account })),
+        { waitForRateLimit: true }
+      )
+      if (heroes.length === 0) return null
+      if (failed.length > 0) {
+        console.warn(`Leaderboard meta: ${failed.length} of ${entries.length} heroes could not be fetched`, failed)
+      }
+
+      const usage = this.aggregate(heroes, failed.length, {
+        heroClass,
+        scope: 'season',
+        scopeId: index.current,
+        leaderboardId: leaderboard.leaderboardId,
+        hardcore,
+        topN
+      })
+
+      if (failed.length <= entries.length * MAX_CACHED_FAILURE_SHARE) {
+        this.setCache(cacheKey, usage)
+      }
+      return usage
+    } catch (error) {
+      console.error('Failed to build leaderboard meta:', error)
+      return null
+    }
+  }
+
+  /**
+   * Leaderboard-derived meta build reference for a hero's class
+   */
+  async findLeaderboardMetaBuild(hero: Hero, options: LeaderboardMetaOptions = {}): Promise<MetaBuildReference | null> {
+    const usage = await this.getClassMeta(hero.heroClass, { hardcore: hero.hardcore, ...options })
+    return usage ? this.toMetaBuildReference(usage) : null
+  }
+
+  /**
+   * Convert usage statistics into the shared meta build reference shape
+   */
+  toMetaBuildReference(usage: LeaderboardMetaUsage): MetaBuildReference {
+    const topSet = usage.sets[0]
+    const buildName = topSet
+      ? `${topSet.name} ${usage.heroClass}`
+      : `Top ${usage.heroClass}`
+
+    const coreItems: string[] = []
+    for (const slot of GEAR_SLOTS) {
+      const top = usage.slots[slot]?.[0]
+      if (top && top.share >= CORE_ITEM_SHARE && !coreItems.includes(top.name)) {
+        coreItems.push(top.name)
+      }
+    }
+
+    const keySynergies = usage.legendaryGems
+      .filter(g => g.share >= CORE_ITEM_SHARE)
+      .map(g => `${g.name} (${Math.round(g.share * 100)}% of top clears)`)
+
+    const activeSkills = usage.activeSkills.slice(0, 6).map(s => ({
+      skill: s.name,
+      rune: usage.runes[s.name]?.[0]?.name ?? ''
+    }))
+
+    return {
+      buildName,
+      tier: this.describeSample(usage),
+      guideUrl: `https://diablo3.blizzard.com/en-us/rankings/${usage.scope}/${usage.scopeId}/${usage.leaderboardId}`,
+      coreItems,
+      keySynergies,
+      skills: {
+        active: activeSkills,
+        passive: usage.passiveSkills.slice(0, 4).map(p => p.name)
+      },
+      cubePowers: {
+        weapon: usage.cubePowers.weapon[0]?.name ?? '',
+        armor: usage.cubePowers.armor[0]?.name ?? '',
+        jewelry: usage.cubePowers.jewelry[0]?.name ?? ''
+      },
+      source: 'leaderboard',
+      usage
+    }
+  }
+
+  /**
+   * Sample label, e.g. "100 of the top 100 clears" or "98 of the top 100 clears, 2 unavailable"
+   */
+  describeSample(usage: LeaderboardMetaUsage): string {
+    const failed = usage.failedCount ?? 0
+    const label = `${usage.sampleSize} of the top ${usage.topN} clears`
+    return failed > 0 ? `${label}, ${failed} unavailable` : label
+  }
+
+  /**
+   * Build usage lines for the prompt ("92% of 100 sampled top-100 Necromancers use X in Shoulders")
+   */
+  buildUsageContext(usage: LeaderboardMetaUsage, hero?: Hero): string {
+    const cohort = `${usage.sampleSize} sampled top-${usage.topN} ${usage.heroClass}s`
+    const pct = (share: number) => `${Math.round(share * 100)}%`
+    const lines: string[] = []
+
+    if (usage.sets[0]) {
+      lines.push(`- ${pct(usage.sets[0].share)} of ${cohort} run ${usage.sets[0].name}`)
+    }
+
+    for (const slot of GEAR_SLOTS) {
+      const top = usage.slots[slot]?.[0]
+      if (!top) continue
+      const equipped = hero?.items[slot]?.name
+      const note = equipped
+        ? equipped === top.name ? ' (you have this)' : ` (you have ${equipped})`
+        : ''
+      lines.push(`- ${pct(top.share)} of ${cohort} use ${top.name} in ${SLOT_NAMES[slot] || slot}${note}`)
+    }
+
+    const cube = usage.cubePowers
+    for (const [label, shares] of [['Weapon', cube.weapon], ['Armor', cube.armor], ['Jewelry', cube.jewelry]] as const) {
+      if (shares[0]) {
+        lines.push(`- ${pct(shares[0].share)} cube ${shares[0].name} (${label})`)
+      }
+    }
+
+    for (const gem of usage.legendaryGems.slice(0, 4)) {
+      lines.push(`- ${pct(gem.share)} socket ${gem.name}`)
+    }
+
+    for (const skill of usage.activeSkills.slice(0, 6)) {
+      const rune = usage.runes[skill.name]?.[0]
+      const runeNote = rune ? ` (${pct(rune.count / skill.count)} of them with ${rune.name})` : ''
+      lines.push(`- ${pct(skill.share)} use ${skill.name}${runeNote}`)
+    }
+
+    for (const passive of usage.passiveSkills.slice(0, 4)) {
+      lines.push(`- ${pct(passive.share)} take the ${passive.name} passive`)
+    }
+
+    return lines.join('\n')
+  }
+
+  clearCache(): void {
+    const keysToRemove: string[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (key?.startsWith(CACHE_KEY_PREFIX)) {
+        keysToRemove.push(key)
+      }
+    }
+    keysToRemove.forEach(key => localStorage.removeItem(key))
+  }
+
+  // ========================================
+  // Private methods
+  // ========================================
+
+  private aggregate(
+    heroes: Hero[],
+    failedCount: number,
+    meta: Pick<LeaderboardMetaUsage, 'heroClass' | 'scope' | 'scopeId' | 'leaderboardId' | 'hardcore' | 'topN'>
+  ): LeaderboardMetaUsage {
+    const sets = new Map<string, number>()
+    const slots = new Map<string, Map<string, number>>()
+    const cubeWeapon = new Map<string, number>()
+    const cubeArmor = new Map<string, number>()
+    const cubeJewelry = new Map<string, number>()
+    const gems = new Map<string, number>()
+    const skills = new Map<string, number>()
+    const runes = new Map<string, Map<string, number>>()
+    const passives = new Map<string, number>()
+
+    for (const hero of heroes) {
+      // Primary set = the set with the most equipped pieces
+      const setPieces = new Map<string, number>()
+      for (const item of Object.values(hero.items)) {
+        increment(setPieces, item.setName)
+      }
+      const primarySet = [...setPieces.entries()].sort((a, b) => b[1] - a[1])[0]
+      increment(sets, primarySet?.[0])
+
+      for (const slot of GEAR_SLOTS) {
+        const item = hero.items[slot]
+        if (!item) continue
+        if (!slots.has(slot)) slots.set(slot, new Map())
+        increment(slots.get(slot)!, item.name)
+      }
+
+      increment(cubeWeapon, hero.cubePowers?.weapon)
+      increment(cubeArmor, hero.cubePowers?.armor)
+      increment(cubeJewelry, hero.cubePowers?.jewelry)
+
+      for (const gem of hero.legendaryGems) {
+        increment(gems, gem.name)
+      }
+
+      for (const skill of hero.activeSkills) {
+        increment(skills, skill.name)
+        if (!runes.has(skill.name)) runes.set(skill.name, new Map())
+        increment(runes.get(skill.name)!, skill.rune || 'No Rune')
+      }
+
+      for (const passive of hero.passiveSkills) {
+        increment(passives, passive.name)
+      }
+    }
+
+    const sampleSize = heroes.length
+
+    return {
+      ...meta,
+      sampleSize,
+      failedCount,
+      generatedAt: Date.now(),
+      sets: toShares(sets, sampleSize),
+      slots: Object.fromEntries([...slots.entries()].map(([slot, counts]) => [slot, toShares(counts, sampleSize)])),
+      cubePowers: {
+        weapon: toShares(cubeWeapon, sampleSize),
+        armor: toShares(cubeArmor, sampleSize),
+        jewelry: toShares(cubeJewelry, sampleSize)
+      },
+      legendaryGems: toShares(gems, sampleSize),
+      activeSkills: toShares(skills, sampleSize),
+      runes: Object.fromEntries([...runes.entries()].map(([skill, counts]) => [skill, toShares(counts, sampleSize)])),
+      passiveSkills: toShares(passives, sampleSize)
+    }
+  }
+
+  private getCached(key: string): LeaderboardMetaUsage | null {
+    try {
+      const cached = localStorage.getItem(key)
+      if (!cached) return null
+
+      const entry: MaxrollCacheEntry<LeaderboardMetaUsage> = JSON.parse(cached)
+      if (Date.now() > entry.expiresAt) {
+        localStorage.removeItem(key)
+        return null
+      }
+      return entry.data
+    } catch {
+      return null
+    }
+  }
+
+  private setCache(key: string, data: LeaderboardMetaUsage): void {
+    try {
+      const entry: MaxrollCacheEntry<LeaderboardMetaUsage> = {
+        data,
+        timestamp: Date.now(),
+        expiresAt: Date.now() + META_TTL
+      }
+      localStorage.setItem(key, JSON.stringify(entry))
+    } catch (error) {
+      console.warn('Failed to cache leaderboard meta:', error)
+    }
+  }
+}
+
+// Export singleton instance
+export const leaderboardMetaService = new LeaderboardMetaService()
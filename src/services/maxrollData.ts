@@ -23,6 +23,7 @@ import {
   extractCoreItems,
   extractKeySynergies
 } from './maxrollParser'
+import { proxyHeaders } from './proxySigning'
 
 // Cache TTLs
 const TIER_LIST_TTL = 24 * 60 * 60 * 1000 // 24 hours
@@ -307,12 +308,11 @@ class MaxrollDataService {
     }
 
     try {
+      const body = JSON.stringify({ endpoint })
       const response = await fetch(`${proxyUrl}/api/maxroll`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ endpoint })
+        headers: await proxyHeaders('/api/maxroll', body),
+        body
       })
 
       if (!response.ok) {
@@ -14,7 +14,8 @@ import type {
   MaxrollGearSlot,
   MaxrollSkillSet,
   MaxrollCubePowers,
-  MaxrollGem
+  MaxrollGem,
+  MaxrollParagonPriorities
 } from '@/types/maxroll'
 
 /**
@@ -149,6 +150,9 @@ export function parseBuildGuidePage(html: string): MaxrollBuildGuide | null {
   // Extract legendary gems
   const legendaryGems = parseLegendaryGems(doc)
 
+  // Extract paragon priorities
+  const paragonPriorities = parseParagonPriorities(doc)
+
   // Extract playstyle/gameplay section
   const playstyleSection = doc.querySelector('.gameplay, .playstyle, #gameplay')
   const playstyle = playstyleSection?.textContent?.trim().slice(0, 500) || ''
@@ -162,6 +166,7 @@ export function parseBuildGuidePage(html: string): MaxrollBuildGuide | null {
     skills,
     kanaisCube,
     legendaryGems,
+    paragonPriorities,
     playstyle
   }
 }
@@ -285,6 +290,28 @@ function parseLegendaryGems(doc: Document): MaxrollGem[] {
   return gems
 }
 
+/**
+ * Parse paragon priorities (one list per category) from build guide
+ */
+function parseParagonPriorities(doc: Document): MaxrollParagonPriorities | undefined {
+  const section = doc.querySelector('.paragon, .paragon-priorities, #paragon, [class*="paragon"]')
+  if (!section) return undefined
+
+  const priorities: MaxrollParagonPriorities = { core: [], offense: [], defense: [], utility: [] }
+
+  for (const category of Object.keys(priorities) as Array<keyof MaxrollParagonPriorities>) {
+    const categoryEl = section.querySelector(`[data-category="${category}"], .${category}`)
+    if (!categoryEl) continue
+
+    priorities[category] = Array.from(categoryEl.querySelectorAll('li, .stat, .paragon-stat'))
+      .map(el => el.textContent?.trim())
+      .filter((text): text is string => !!text && text.length < 50)
+  }
+
+  const hasAny = Object.values(priorities).some(list => list.length > 0)
+  return hasAny ? priorities : undefined
+}
+
 /**
  * Extract core items from a build guide for meta reference
  */
@@ -0,0 +1,227 @@
+/**
+ * @file services/paragonOptimizer.ts
+ * @description Paragon point spend per category and stat from a build's priorities
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import { CLASS_MAIN_STAT } from '@/types/hero'
+import type { MaxrollParagonPriorities } from '@/types/maxroll'
+import type {
+  ParagonAllocation,
+  ParagonCategory,
+  ParagonProjection,
+  ParagonStat,
+  ParagonStatAllocation,
+  ParagonStatChange
+} from '@/types/paragon'
+import { PARAGON_CATEGORIES, PARAGON_CATEGORY_NAMES } from '@/types/paragon'
+import { DEFAULT_PARAGON_PRIORITIES, PARAGON_ROTATION_LEVEL, PARAGON_STATS } from '@/data/d3Reference'
+
+// Levels added when projecting further paragon
+const PROJECTION_LEVELS = 100
+
+// Guide wording for each paragon stat
+const PARAGON_STAT_RULES: Array<{ pattern: RegExp; stat: ParagonStat }> = [
+  { pattern: /movement|move speed|\bms\b/i, stat: 'movementSpeed' },
+  { pattern: /max(?:imum)? (?:resource|fury|wrath|hatred|discipline|spirit|essence|mana|arcane power)/i, stat: 'maxResource' },
+  { pattern: /vitality|\bvit\b/i, stat: 'vitality' },
+  { pattern: /primary|main stat|strength|dexterity|intelligence/i, stat: 'mainStat' },
+  { pattern: /attack speed|\bias\b/i, stat: 'attackSpeed' },
+  { pattern: /cooldown|\bcdr\b/i, stat: 'cooldownReduction' },
+  { pattern: /crit(?:ical)?(?: hit)? chance|\bchc\b|\bcc\b/i, stat: 'critChance' },
+  { pattern: /crit(?:ical)?(?: hit)? damage|\bchd\b|\bcd\b/i, stat: 'critDamage' },
+  { pattern: /life regen|regeneration/i, stat: 'lifeRegen' },
+  { pattern: /life on hit|life per hit|\bloh\b/i, stat: 'lifeOnHit' },
+  { pattern: /life|\bhp\b/i, stat: 'lifePercent' },
+  { pattern: /resist/i, stat: 'allResist' },
+  { pattern: /armor/i, stat: 'armor' },
+  { pattern: /area damage|\bad\b/i, stat: 'areaDamage' },
+  { pattern: /resource cost|\brcr\b/i, stat: 'resourceCostReduction' },
+  { pattern: /gold/i, stat: 'goldFind' }
+]
+
+/**
+ * Map a guide's paragon line ("Movement Speed", "CDR") to a paragon stat
+ */
+export function parseParagonStat(text: string): ParagonStat | null {
+  return PARAGON_STAT_RULES.find(rule => rule.pattern.test(text))?.stat ?? null
+}
+
+/**
+ * Points each category has at a paragon level
+ */
+export function getCategoryPoints(paragonLevel: number): Record<ParagonCategory, number> {
+  const rotated = Math.min(paragonLevel, PARAGON_ROTATION_LEVEL)
+  const extra = Math.max(0, paragonLevel - PARAGON_ROTATION_LEVEL)
+
+  // Level 1 is Core, 2 Offense, 3 Defense, 4 Utility, then it repeats
+  return {
+    core: Math.ceil(rotated / 4) + extra,
+    offense: Math.floor((rotated + 2) / 4),
+    defense: Math.floor((rotated + 1) / 4),
+    utility: Math.floor(rotated / 4)
+  }
+}
+
+class ParagonOptimizer {
+  /**
+   * Point spend per stat for a paragon level and build priorities
+   */
+  allocate(paragonLevel: number, heroClass: string, guide?: MaxrollParagonPriorities): ParagonAllocation {
+    const priorities = this.resolvePriorities(guide)
+    const pointsByCategory = getCategoryPoints(paragonLevel)
+    const stats: ParagonStatAllocation[] = []
+
+    for (const category of PARAGON_CATEGORIES) {
+      let remaining = pointsByCategory[category]
+      const order = priorities.order[category]
+      const points = new Map<ParagonStat, number>()
+
+      // Capped stats fill in priority order first
+      for (const stat of order) {
+        const max = PARAGON_STATS[stat].maxPoints
+        if (max === undefined) continue
+        const spend = Math.min(remaining, max)
+        points.set(stat, spend)
+        remaining -= spend
+      }
+
+      // Whatever is left goes to the first uncapped stat (Core's primary stat or Vitality)
+      const uncapped = order.find(stat => PARAGON_STATS[stat].maxPoints === undefined)
+      if (uncapped) {
+        points.set(uncapped, remaining)
+      }
+
+      for (const stat of order) {
+        stats.push(this.toStatAllocation(stat, points.get(stat) ?? 0, heroClass))
+      }
+    }
+
+    return {
+      paragonLevel,
+      pointsByCategory,
+      stats,
+      priorities: priorities.order,
+      source: priorities.source
+    }
+  }
+
+  /**
+   * Compare the allocation now with the one after more paragon levels
+   */
+  project(
+    paragonLevel: number,
+    heroClass: string,
+    guide?: MaxrollParagonPriorities,
+    levels = PROJECTION_LEVELS
+  ): ParagonProjection {
+    const from = this.allocate(paragonLevel, heroClass, guide)
+    const to = this.allocate(paragonLevel + levels, heroClass, guide)
+
+    const changes: ParagonStatChange[] = []
+    for (const after of to.stats) {
+      const before = from.stats.find(s => s.stat === after.stat)
+      const pointsBefore = before?.points ?? 0
+      if (after.points === pointsBefore) continue
+      changes.push({
+        stat: after.stat,
+        label: after.label,
+        pointsBefore,
+        pointsAfter: after.points,
+        valueChange: after.value !== undefined ? after.value - (before?.value ?? 0) : undefined,
+        isPercent: after.isPercent
+      })
+    }
+
+    return { levels, from, to, changes, summary: this.summarize(from, to, changes, levels) }
+  }
+
+  // ========================================
+  // Private methods
+  // ========================================
+
+  /**
+   * Guide priorities per category, completed with the default order for stats the guide skips
+   */
+  private resolvePriorities(guide?: MaxrollParagonPriorities): {
+    order: Record<ParagonCategory, ParagonStat[]>
+    source: ParagonAllocation['source']
+  } {
+    const order = {} as Record<ParagonCategory, ParagonStat[]>
+    let fromGuide = false
+
+    for (const category of PARAGON_CATEGORIES) {
+      const parsed = (guide?.[category] ?? [])
+        .map(parseParagonStat)
+        .filter((stat): stat is ParagonStat => stat !== null && PARAGON_STATS[stat].category === category)
+      if (parsed.length > 0) fromGuide = true
+
+      const listed = [...new Set(parsed)]
+      order[category] = [...listed, ...DEFAULT_PARAGON_PRIORITIES[category].filter(s => !listed.includes(s))]
+    }
+
+    return { order, source: fromGuide ? 'guide' : 'default' }
+  }
+
+  private toStatAllocation(stat: ParagonStat, points: number, heroClass: string): ParagonStatAllocation {
+    const info = PARAGON_STATS[stat]
+    const classSlug = heroClass.toLowerCase().replace(' ', '-')
+    const mainStat = CLASS_MAIN_STAT[classSlug]
+    const label = stat === 'mainStat' && mainStat
+      ? mainStat.charAt(0).toUpperCase() + mainStat.slice(1)
+      : info.label
+
+    return {
+      stat,
+      category: info.category,
+      label,
+      points,
+      maxPoints: info.maxPoints,
+      value: info.perPoint !== undefined ? points * info.perPoint : undefined,
+      isPercent: info.isPercent
+    }
+  }
+
+  private summarize(
+    from: ParagonAllocation,
+    to: ParagonAllocation,
+    changes: ParagonStatChange[],
+    levels: number
+  ): string {
+    const gained = PARAGON_CATEGORIES
+      .map(category => ({ category, points: to.pointsByCategory[category] - from.pointsByCategory[category] }))
+      .filter(c => c.points > 0)
+      .map(c => `${c.points} ${PARAGON_CATEGORY_NAMES[c.category]}`)
+
+    const format = (change: ParagonStatChange) => {
+      if (change.valueChange === undefined) return `${change.label} +${change.pointsAfter - change.pointsBefore} points`
+      const value = Number.isInteger(change.valueChange) ? change.valueChange : change.valueChange.toFixed(1)
+      return `${change.label} +${value}${change.isPercent ? '%' : ''}`
+    }
+
+    const capped = changes
+      .filter(c => c.pointsAfter === PARAGON_STATS[c.stat].maxPoints)
+      .map(c => c.label)
+
+    const parts = [
+      `${levels} more levels (P${from.paragonLevel} → P${to.paragonLevel}) add ${gained.join(', ')} points`,
+      changes.length > 0 ? `: ${changes.map(format).join(', ')}.` : '.'
+    ]
+    if (capped.length > 0) {
+      parts.push(` ${capped.join(', ')} reach${capped.length === 1 ? 'es' : ''} the cap.`)
+    }
+    if (from.paragonLevel >= PARAGON_ROTATION_LEVEL) {
+      parts.push(` Past P${PARAGON_ROTATION_LEVEL} every level is a Core point.`)
+    } else if (to.paragonLevel > PARAGON_ROTATION_LEVEL) {
+      parts.push(` Levels past P${PARAGON_ROTATION_LEVEL} only give Core points.`)
+    }
+    return parts.join('')
+  }
+}
+
+// Export singleton instance
+export const paragonOptimizer = new ParagonOptimizer()
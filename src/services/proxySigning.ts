@@ -0,0 +1,50 @@
+/**
+ * @file services/proxySigning.ts
+ * @description HMAC request signing for proxy workers that require a shared secret
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import { useVaultStore } from '@/stores/vault'
+import { VaultLockedError } from './battlenet'
+
+// Must match the worker (timestamp in ms, signature as hex)
+export const PROXY_TIMESTAMP_HEADER = 'X-Dyerb-Timestamp'
+export const PROXY_SIGNATURE_HEADER = 'X-Dyerb-Signature'
+
+/**
+ * Headers for a JSON POST to the proxy, signed over "timestamp\nPOST\npath\nbody"
+ * when a signing key is configured
+ */
+export async function proxyHeaders(path: string, body: string): Promise<Record<string, string>> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+
+  const vault = useVaultStore()
+  if (!vault.hasSecret('proxySigningKey')) return headers
+
+  // readSecret() also opens the unlock prompt
+  const signingKey = vault.readSecret('proxySigningKey')
+  if (signingKey === null) {
+    throw new VaultLockedError()
+  }
+
+  const timestamp = String(Date.now())
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(signingKey),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}\nPOST\n${path}\n${body}`))
+
+  headers[PROXY_TIMESTAMP_HEADER] = timestamp
+  headers[PROXY_SIGNATURE_HEADER] = Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+  return headers
+}
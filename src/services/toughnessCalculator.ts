@@ -0,0 +1,485 @@
+/**
+ * @file services/toughnessCalculator.ts
+ * @description Effective health model combining armor, resists and damage reduction sources
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import type { CubePowers, Hero, HeroStats, Item } from '@/types/hero'
+import type { DamageElement } from '@/types/affix'
+import type {
+  DamageReductionScope,
+  DamageReductionSource,
+  ToughnessLoadoutResult,
+  ToughnessModel,
+  ToughnessProjectionCheck,
+  ToughnessSwapResult
+} from '@/types/toughness'
+import {
+  LEGENDARY_EFFECTS,
+  LEGENDARY_GEM_DEFENSE,
+  MELEE_CLASS_REDUCTION,
+  PASSIVE_DEFENSES,
+  getActiveSetBonuses,
+  hasRingOfRoyalGrandeur
+} from '@/data/d3Reference'
+import { getItemAffixes, sumAffixValues } from './affixParser'
+import { itemFromName, parseClaimedMultiplier } from './damageCalculator'
+import type { BuildRecommendation } from './claudeAnalysis'
+
+// Monster level the armor and resist formulas are evaluated against
+const MONSTER_LEVEL = 70
+
+// Life granted per point of Vitality at level 70
+const LIFE_PER_VITALITY = 100
+
+// Resistance granted per point of Intelligence
+const RESIST_PER_INTELLIGENCE = 0.1
+
+// Claimed and modeled multipliers further apart than this factor are flagged
+const DIVERGENCE_FACTOR = 2
+
+const ELEMENTS: DamageElement[] = ['physical', 'fire', 'cold', 'lightning', 'poison', 'arcane', 'holy']
+
+// Character sheet resist field per element (holy damage is resisted by arcane resistance)
+const RESIST_FIELDS: Record<DamageElement, keyof HeroStats> = {
+  physical: 'physicalResist',
+  fire: 'fireResist',
+  cold: 'coldResist',
+  lightning: 'lightningResist',
+  poison: 'poisonResist',
+  arcane: 'arcaneResist',
+  holy: 'arcaneResist'
+}
+
+/** Gear-independent parts of the sheet, so swaps can be modeled from affixes */
+interface SheetOffsets {
+  lifeBase: number
+  armorBase: number
+  resistBase: Record<DamageElement, number>
+}
+
+function armorReduction(armor: number): number {
+  return armor / (armor + 50 * MONSTER_LEVEL)
+}
+
+function resistReduction(resist: number): number {
+  return resist / (resist + 5 * MONSTER_LEVEL)
+}
+
+/**
+ * Which incoming damage a piece of effect text limits its reduction to
+ */
+function scopeOf(text: string): DamageReductionScope | undefined {
+  if (/melee/i.test(text)) return 'melee'
+  if (/ranged/i.test(text)) return 'ranged'
+  if (/elite/i.test(text)) return 'elite'
+  if (/non-?physical/i.test(text)) return 'nonPhysical'
+  return undefined
+}
+
+/**
+ * Read the largest damage reduction out of effect text ("take 50% reduced damage",
+ * "damage taken is reduced by 50%", "up to a maximum of 50%")
+ */
+function parseReduction(text?: string): { reduction: number; appliesTo?: DamageReductionScope } | null {
+  if (!text) return null
+
+  const patterns = [
+    /(\d+(?:\.\d+)?)(?:\s*[-–]\s*(\d+(?:\.\d+)?))?%\s+(?:reduced damage|less damage|damage reduction)/gi,
+    /damage taken (?:is )?reduced by (?:up to )?(\d+(?:\.\d+)?)(?:\s*[-–]\s*(\d+(?:\.\d+)?))?%/gi,
+    /reduces? (?:all )?damage (?:taken )?(?:from [\w\s-]+? )?by (\d+(?:\.\d+)?)(?:\s*[-–]\s*(\d+(?:\.\d+)?))?%/gi,
+    /(?:damage taken|damage reduction)[^.]*maximum of (\d+(?:\.\d+)?)%/gi
+  ]
+
+  let best: number | null = null
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const value = Number(match[2] ?? match[1])
+      if (!Number.isNaN(value) && (best === null || value > best)) best = value
+    }
+  }
+
+  return best === null ? null : { reduction: Math.min(best, 100) / 100, appliesTo: scopeOf(text) }
+}
+
+/**
+ * Read an armor increase out of effect text ("Increase your Armor by 40-50%")
+ */
+function parseArmorBonus(text?: string): number {
+  if (!text) return 0
+  const match = text.match(/Armor by (\d+(?:\.\d+)?)(?:\s*[-–]\s*(\d+(?:\.\d+)?))?%/i) ||
+    text.match(/(\d+(?:\.\d+)?)(?:\s*[-–]\s*(\d+(?:\.\d+)?))?% (?:increased |more )?Armor/i)
+  return match ? Number(match[2] ?? match[1]) / 100 : 0
+}
+
+function appliesTo(source: DamageReductionSource, element: DamageElement, hit?: DamageReductionScope): boolean {
+  if (!source.appliesTo) return true
+  if (source.appliesTo === 'nonPhysical') return element !== 'physical'
+  return source.appliesTo === hit
+}
+
+class ToughnessCalculator {
+  /**
+   * Model a hero's effective health
+   */
+  calculate(hero: Hero): ToughnessModel {
+    return this.buildModel(hero, hero.items, hero.cubePowers, this.getSheetOffsets(hero))
+  }
+
+  /**
+   * EHP change from replacing the item in a slot (by item or by name)
+   */
+  compareSwap(hero: Hero, slot: string, replacement: Item | string): ToughnessSwapResult {
+    const offsets = this.getSheetOffsets(hero)
+    const before = this.buildModel(hero, hero.items, hero.cubePowers, offsets)
+
+    const current = hero.items[slot]
+    const next = typeof replacement === 'string'
+      ? itemFromName(replacement, slot, current)
+      : replacement
+    const after = this.buildModel(hero, { ...hero.items, [slot]: next }, hero.cubePowers, offsets)
+
+    return this.toSwapResult(slot, current?.name, next.name, before, after)
+  }
+
+  /**
+   * EHP change from replacing a Kanai's Cube power
+   */
+  compareCubeSwap(hero: Hero, cubeSlot: keyof CubePowers, power: string): ToughnessSwapResult {
+    const offsets = this.getSheetOffsets(hero)
+    const before = this.buildModel(hero, hero.items, hero.cubePowers, offsets)
+    const after = this.buildModel(hero, hero.items, { ...hero.cubePowers, [cubeSlot]: power }, offsets)
+
+    return this.toSwapResult(`cube:${cubeSlot}`, hero.cubePowers?.[cubeSlot], power, before, after)
+  }
+
+  /**
+   * EHP change from a modified copy of the hero (items, cube powers, passives).
+   * Sheet offsets come from the real hero so only the differences count.
+   */
+  compareLoadout(hero: Hero, variant: Hero): ToughnessLoadoutResult {
+    const offsets = this.getSheetOffsets(hero)
+    const before = this.buildModel(hero, hero.items, hero.cubePowers, offsets)
+    const after = this.buildModel(variant, variant.items, variant.cubePowers, offsets)
+
+    return {
+      before,
+      after,
+      changePercent: before.ehp > 0 ? (after.ehp / before.ehp - 1) * 100 : 0
+    }
+  }
+
+  /**
+   * Apply every recommended item and cube change and compare the EHP result
+   * with the toughness multiplier Claude claimed
+   */
+  checkProjection(hero: Hero, recommendation: BuildRecommendation): ToughnessProjectionCheck | null {
+    const claim = recommendation.projectedImprovements?.toughness.estimatedMultiplier
+    const offsets = this.getSheetOffsets(hero)
+    const before = this.buildModel(hero, hero.items, hero.cubePowers, offsets)
+
+    const items = { ...hero.items }
+    const cubePowers: CubePowers = { ...hero.cubePowers }
+    const swaps: ToughnessSwapResult[] = []
+
+    for (const rec of recommendation.gear.items) {
+      if (!rec.slot || rec.slot.includes(',') || !rec.item) continue
+      if (items[rec.slot]?.name.toLowerCase() === rec.item.toLowerCase()) continue
+
+      swaps.push(this.compareSwap({ ...hero, items: { ...items }, cubePowers: { ...cubePowers } }, rec.slot, rec.item))
+      items[rec.slot] = itemFromName(rec.item, rec.slot, items[rec.slot])
+    }
+
+    for (const cubeSlot of ['weapon', 'armor', 'jewelry'] as const) {
+      const power = recommendation.gear.cubePowers?.[cubeSlot]?.name
+      if (!power || power === cubePowers[cubeSlot]) continue
+
+      swaps.push(this.compareCubeSwap({ ...hero, items: { ...items }, cubePowers: { ...cubePowers } }, cubeSlot, power))
+      cubePowers[cubeSlot] = power
+    }
+
+    if (swaps.length === 0 && !claim) return null
+
+    const after = this.buildModel(hero, items, cubePowers, offsets)
+    const modelMultiplier = before.ehp > 0 ? after.ehp / before.ehp : 1
+    const claimedMultiplier = claim ? parseClaimedMultiplier(claim) : null
+
+    const diverges = claimedMultiplier !== null && (
+      claimedMultiplier > modelMultiplier * DIVERGENCE_FACTOR ||
+      claimedMultiplier < modelMultiplier / DIVERGENCE_FACTOR
+    )
+
+    return { modelMultiplier, claimedMultiplier, diverges, swaps }
+  }
+
+  // ========================================
+  // Private methods
+  // ========================================
+
+  /**
+   * Work back from the character sheet to what the hero has without gear affixes
+   */
+  private getSheetOffsets(hero: Hero): SheetOffsets {
+    const items = Object.values(hero.items)
+    const stats = hero.stats
+    const armorMultiplier = this.getArmorMultiplier(hero, items, hero.cubePowers)
+
+    const life = stats?.life ?? hero.life ?? 0
+    const lifePercent = sumAffixValues(items, 'lifePercent')
+    const lifeBase = life / (1 + lifePercent / 100) -
+      sumAffixValues(items, 'vitality') * LIFE_PER_VITALITY
+
+    const armorBase = (stats?.armor ?? 0) / armorMultiplier - this.gearArmor(items)
+
+    const resistBase = {} as Record<DamageElement, number>
+    for (const element of ELEMENTS) {
+      const sheet = stats ? Number(stats[RESIST_FIELDS[element]]) : 0
+      resistBase[element] = sheet - this.gearResist(items, element)
+    }
+
+    return { lifeBase: Math.max(0, lifeBase), armorBase: Math.max(0, armorBase), resistBase }
+  }
+
+  private buildModel(
+    hero: Hero,
+    itemMap: Record<string, Item>,
+    cubePowers: CubePowers | undefined,
+    offsets: SheetOffsets
+  ): ToughnessModel {
+    const items = Object.values(itemMap)
+
+    const life = (offsets.lifeBase + sumAffixValues(items, 'vitality') * LIFE_PER_VITALITY) *
+      (1 + sumAffixValues(items, 'lifePercent') / 100)
+    const armor = (offsets.armorBase + this.gearArmor(items)) *
+      this.getArmorMultiplier(hero, items, cubePowers)
+
+    const resists = {} as Record<DamageElement, number>
+    for (const element of ELEMENTS) {
+      resists[element] = Math.max(0, offsets.resistBase[element] + this.gearResist(items, element))
+    }
+
+    const reductions = this.collectReductions(hero, itemMap, cubePowers)
+
+    const ehpFor = (element: DamageElement, hit?: DamageReductionScope): number => {
+      let taken = (1 - armorReduction(armor)) * (1 - resistReduction(resists[element]))
+      for (const source of reductions) {
+        if (appliesTo(source, element, hit)) taken *= 1 - source.reduction
+      }
+      return taken > 0 ? life / taken : Infinity
+    }
+
+    const ehpByElement = {} as Record<DamageElement, number>
+    for (const element of ELEMENTS) {
+      ehpByElement[element] = ehpFor(element)
+    }
+
+    const weakestElement = ELEMENTS.reduce((weakest, element) =>
+      ehpByElement[element] < ehpByElement[weakest] ? element : weakest
+    )
+    const ehp = ehpByElement[weakestElement]
+
+    const sources: DamageReductionSource[] = [
+      {
+        key: 'armor',
+        category: 'armor',
+        label: 'Armor',
+        reduction: armorReduction(armor),
+        detail: `${Math.round(armor).toLocaleString()} armor`
+      },
+      {
+        key: 'resist',
+        category: 'resist',
+        label: `Resistance (${weakestElement})`,
+        reduction: resistReduction(resists[weakestElement]),
+        detail: `${Math.round(resists[weakestElement]).toLocaleString()} resist`
+      },
+      ...reductions
+    ]
+    sources.sort((a, b) => b.reduction - a.reduction)
+
+    return {
+      life,
+      armor,
+      resists,
+      sources,
+      ehpByElement,
+      ehp,
+      weakestElement,
+      meleeEhp: ehpFor(weakestElement, 'melee'),
+      rangedEhp: ehpFor(weakestElement, 'ranged'),
+      eliteEhp: ehpFor(weakestElement, 'elite'),
+      totalReduction: life > 0 && Number.isFinite(ehp) ? 1 - life / ehp : 1
+    }
+  }
+
+  /**
+   * Armor from gear: armor affixes, item base armor, and Strength (1 armor per point)
+   */
+  private gearArmor(items: Item[]): number {
+    const itemArmor = items.reduce((sum, item) => sum + (item.armor || 0), 0)
+    return itemArmor + sumAffixValues(items, 'armor') + sumAffixValues(items, 'strength')
+  }
+
+  /**
+   * Resistance from gear: all-resist, the element's own resist, and Intelligence
+   */
+  private gearResist(items: Item[], element: DamageElement): number {
+    const resistElement = element === 'holy' ? 'arcane' : element
+    let elemental = 0
+    for (const item of items) {
+      for (const affix of getItemAffixes(item)) {
+        if (affix.kind === 'resist' && affix.element === resistElement && affix.value !== undefined) {
+          elemental += affix.value
+        }
+      }
+    }
+    return sumAffixValues(items, 'allResist') + elemental +
+      sumAffixValues(items, 'intelligence') * RESIST_PER_INTELLIGENCE
+  }
+
+  /**
+   * Armor multiplier from passives and legendary powers (Tough as Nails, Stone Gauntlets)
+   */
+  private getArmorMultiplier(hero: Hero, items: Item[], cubePowers?: CubePowers): number {
+    let bonus = 0
+    for (const passive of hero.passiveSkills) {
+      bonus += PASSIVE_DEFENSES[passive.name]?.armorBonus ?? 0
+    }
+    for (const item of items) {
+      bonus += parseArmorBonus(item.legendaryPower)
+    }
+    for (const power of this.cubedPowers(items, cubePowers)) {
+      bonus += parseArmorBonus(LEGENDARY_EFFECTS[power])
+    }
+    return 1 + bonus
+  }
+
+  /**
+   * Every multiplicative reduction besides armor and resist
+   */
+  private collectReductions(
+    hero: Hero,
+    itemMap: Record<string, Item>,
+    cubePowers?: CubePowers
+  ): DamageReductionSource[] {
+    const items = Object.values(itemMap)
+    const sources: DamageReductionSource[] = []
+    const classSlug = hero.heroClass.toLowerCase().replace(' ', '-')
+
+    if (MELEE_CLASS_REDUCTION[classSlug]) {
+      sources.push({
+        key: 'class',
+        category: 'class',
+        label: 'Melee class',
+        reduction: MELEE_CLASS_REDUCTION[classSlug]
+      })
+    }
+
+    // Affix reductions add up within their kind
+    const affixReductions: Array<[Parameters<typeof sumAffixValues>[1], string, DamageReductionScope]> = [
+      ['eliteDamageReduction', 'Elite damage reduction', 'elite'],
+      ['meleeDamageReduction', 'Melee damage reduction', 'melee'],
+      ['rangedDamageReduction', 'Ranged damage reduction', 'ranged']
+    ]
+    for (const [kind, label, scope] of affixReductions) {
+      const value = sumAffixValues(items, kind)
+      if (value > 0) {
+        sources.push({ key: kind, category: 'affix', label, reduction: Math.min(value, 100) / 100, appliesTo: scope })
+      }
+    }
+
+    for (const item of items) {
+      const parsed = parseReduction(item.legendaryPower)
+      if (parsed) {
+        sources.push({ key: `legendary:${item.name}`, category: 'legendary', label: item.name, ...parsed })
+      }
+    }
+
+    for (const power of this.cubedPowers(items, cubePowers)) {
+      const parsed = parseReduction(LEGENDARY_EFFECTS[power])
+      if (parsed) {
+        sources.push({ key: `cube:${power}`, category: 'cube', label: `${power} (Cube)`, ...parsed })
+      }
+    }
+
+    const counts = new Map<string, number>()
+    for (const item of items) {
+      if (item.setName) counts.set(item.setName, (counts.get(item.setName) || 0) + 1)
+    }
+    const hasRoRG = hasRingOfRoyalGrandeur(itemMap, cubePowers)
+    for (const [setName, pieces] of counts) {
+      for (const tier of getActiveSetBonuses(setName, pieces, hasRoRG)) {
+        const parsed = parseReduction(tier.bonus)
+        if (parsed) {
+          sources.push({ key: `set:${setName}:${tier.pieces}`, category: 'set', label: `${setName} (${tier.pieces})`, ...parsed })
+        }
+      }
+    }
+
+    for (const item of items) {
+      for (const gem of item.gems || []) {
+        const info = gem.isLegendary ? LEGENDARY_GEM_DEFENSE[gem.name] : undefined
+        if (!info) continue
+        const rank = gem.rank ?? 0
+        const reduction = Math.min(info.max ?? 1, info.base + info.perRank * rank)
+        sources.push({
+          key: `gem:${gem.name}`,
+          category: 'gem',
+          label: `${gem.name} (Rank ${rank})`,
+          reduction,
+          appliesTo: info.appliesTo,
+          detail: info.note
+        })
+      }
+    }
+
+    for (const passive of hero.passiveSkills) {
+      const info = PASSIVE_DEFENSES[passive.name]
+      if (info?.reduction) {
+        sources.push({
+          key: `passive:${passive.name}`,
+          category: 'passive',
+          label: passive.name,
+          reduction: info.reduction,
+          appliesTo: info.appliesTo,
+          detail: info.note
+        })
+      }
+    }
+
+    return sources
+  }
+
+  /**
+   * Cubed powers that aren't also equipped (the same power doesn't stack)
+   */
+  private cubedPowers(items: Item[], cubePowers?: CubePowers): string[] {
+    const equipped = new Set(items.map(i => i.name.toLowerCase()))
+    return [cubePowers?.weapon, cubePowers?.armor, cubePowers?.jewelry]
+      .filter((power): power is string => !!power && !equipped.has(power.toLowerCase()))
+  }
+
+  private toSwapResult(
+    slot: string,
+    fromItem: string | undefined,
+    toItem: string,
+    before: ToughnessModel,
+    after: ToughnessModel
+  ): ToughnessSwapResult {
+    return {
+      slot,
+      fromItem,
+      toItem,
+      before: before.ehp,
+      after: after.ehp,
+      changePercent: before.ehp > 0 ? (after.ehp / before.ehp - 1) * 100 : 0
+    }
+  }
+}
+
+// Export singleton instance
+export const toughnessCalculator = new ToughnessCalculator()
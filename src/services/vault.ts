@@ -0,0 +1,143 @@
+/**
+ * @file services/vault.ts
+ * @description WebCrypto encryption for the credential vault (PBKDF2 + AES-GCM)
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import type { EncryptedVault, VaultSecretName, VaultSecrets } from '@/types/vault'
+import { VAULT_PBKDF2_ITERATIONS, VAULT_SECRET_NAMES } from '@/types/vault'
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'VaultError'
+  }
+}
+
+// Bytes of random salt and AES-GCM nonce
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+/**
+ * An opened vault: the decrypted secrets plus the derived key to re-seal them
+ */
+export interface OpenedVault {
+  secrets: VaultSecrets
+  key: CryptoKey
+}
+
+class VaultService {
+  /**
+   * Encrypt secrets under a new passphrase with a fresh salt
+   */
+  async create(secrets: VaultSecrets, passphrase: string): Promise<{ vault: EncryptedVault; key: CryptoKey }> {
+    this.assertSupported()
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+    const key = await this.deriveKey(passphrase, salt, VAULT_PBKDF2_ITERATIONS)
+    const vault = await this.seal(secrets, key, {
+      salt: this.toBase64(salt),
+      iterations: VAULT_PBKDF2_ITERATIONS
+    })
+    return { vault, key }
+  }
+
+  /**
+   * Decrypt a vault with its passphrase
+   */
+  async open(vault: EncryptedVault, passphrase: string): Promise<OpenedVault> {
+    this.assertSupported()
+    const key = await this.deriveKey(passphrase, this.fromBase64(vault.salt), vault.iterations)
+
+    let plaintext: ArrayBuffer
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: this.fromBase64(vault.iv) },
+        key,
+        this.fromBase64(vault.ciphertext)
+      )
+    } catch {
+      // AES-GCM authentication fails on a wrong passphrase and on tampered data alike
+      throw new VaultError('Wrong passphrase.')
+    }
+
+    const parsed: Partial<VaultSecrets> = JSON.parse(new TextDecoder().decode(plaintext))
+    return { secrets: this.toSecrets(parsed), key }
+  }
+
+  /**
+   * Re-encrypt changed secrets with an already derived key (new nonce, same salt)
+   */
+  async reseal(secrets: VaultSecrets, key: CryptoKey, vault: EncryptedVault): Promise<EncryptedVault> {
+    return this.seal(secrets, key, { salt: vault.salt, iterations: vault.iterations })
+  }
+
+  // ============================================================================
+  // Private methods
+  // ============================================================================
+
+  private toSecrets(values: Partial<VaultSecrets>): VaultSecrets {
+    return Object.fromEntries(VAULT_SECRET_NAMES.map(name => [name, values[name] ?? ''])) as VaultSecrets
+  }
+
+  private async seal(
+    secrets: VaultSecrets,
+    key: CryptoKey,
+    params: Pick<EncryptedVault, 'salt' | 'iterations'>
+  ): Promise<EncryptedVault> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      new TextEncoder().encode(JSON.stringify(secrets))
+    )
+    const secretNames: VaultSecretName[] = VAULT_SECRET_NAMES.filter(name => !!secrets[name])
+
+    return {
+      version: 1,
+      salt: params.salt,
+      iterations: params.iterations,
+      iv: this.toBase64(iv),
+      ciphertext: this.toBase64(new Uint8Array(ciphertext)),
+      secretNames
+    }
+  }
+
+  private async deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    )
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    )
+  }
+
+  private assertSupported() {
+    if (!globalThis.crypto?.subtle) {
+      throw new VaultError('This browser does not support WebCrypto. The vault needs a secure (HTTPS) context.')
+    }
+  }
+
+  private toBase64(bytes: Uint8Array): string {
+    let binary = ''
+    bytes.forEach(b => { binary += String.fromCharCode(b) })
+    return btoa(binary)
+  }
+
+  private fromBase64(value: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(value), c => c.charCodeAt(0))
+  }
+}
+
+export const vaultService = new VaultService()
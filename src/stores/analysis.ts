@@ -11,12 +11,45 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { analysisEngine, type GearAnalysis, type Suggestion } from '@/services/analysisEngine'
+import { useMaxrollStore } from '@/stores/maxroll'
+import { useSettingsStore } from '@/stores/settings'
 import type { Hero } from '@/types/hero'
+import type { TargetBuild } from '@/types/maxroll'
+
+// Chosen target build guide URL per hero id
+const TARGET_BUILDS_KEY = 'dyerb-target-builds'
+
+function loadTargetBuildUrls(): Record<number, string> {
+  try {
+    const stored = localStorage.getItem(TARGET_BUILDS_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch {
+    return {}
+  }
+}
+
+function saveTargetBuildUrl(heroId: number, guideUrl: string | null): void {
+  const urls = loadTargetBuildUrls()
+  if (guideUrl) urls[heroId] = guideUrl
+  else delete urls[heroId]
+
+  try {
+    localStorage.setItem(TARGET_BUILDS_KEY, JSON.stringify(urls))
+  } catch (e) {
+    console.error('Failed to save target build:', e)
+  }
+}
 
 export const useAnalysisStore = defineStore('analysis', () => {
+  const maxroll = useMaxrollStore()
+  const settings = useSettingsStore()
+
   // State
   const currentAnalysis = ref<GearAnalysis | null>(null)
+  const currentHero = ref<Hero | null>(null)
+  const targetBuild = ref<TargetBuild | null>(null)
   const isLoading = ref(false)
+  const isLoadingTarget = ref(false)
   const error = ref<string | null>(null)
 
   // Getters
@@ -30,13 +63,29 @@ export const useAnalysisStore = defineStore('analysis', () => {
 
   const activeSets = computed(() => currentAnalysis.value?.setAnalysis ?? [])
 
+  /** Slots holding the target build's primary item, out of the slots it covers */
+  const buildProgress = computed(() => {
+    const slots = Object.values(currentAnalysis.value?.slotAnalysis ?? {})
+      .filter(slot => slot.buildMatch)
+    return {
+      onBuild: slots.filter(slot => slot.buildMatch === 'primary').length,
+      total: slots.length
+    }
+  })
+
   // Actions
   function analyzeHero(hero: Hero): void {
     isLoading.value = true
     error.value = null
 
+    // A target build belongs to the hero it was chosen for
+    if (currentHero.value?.heroId !== hero.heroId) {
+      targetBuild.value = null
+    }
+    currentHero.value = hero
+
     try {
-      currentAnalysis.value = analysisEngine.analyzeHero(hero)
+      currentAnalysis.value = analysisEngine.analyzeHero(hero, targetBuild.value)
     } catch (e) {
       error.value = e instanceof Error ? e.message : 'Analysis failed'
       console.error('Analysis failed:', e)
@@ -47,9 +96,60 @@ export const useAnalysisStore = defineStore('analysis', () => {
 
   function clearAnalysis(): void {
     currentAnalysis.value = null
+    currentHero.value = null
+    targetBuild.value = null
     error.value = null
   }
 
+  /**
+   * Score the current hero against a build (or plain gear quality when null)
+   */
+  function setTargetBuild(build: TargetBuild | null): void {
+    targetBuild.value = build
+    if (currentHero.value) {
+      analyzeHero(currentHero.value)
+    }
+  }
+
+  /**
+   * Fetch a Maxroll guide and use it as the current hero's target build
+   */
+  async function selectTargetGuide(guideUrl: string | null): Promise<boolean> {
+    const hero = currentHero.value
+    if (!hero) return false
+
+    saveTargetBuildUrl(hero.heroId, guideUrl)
+    if (!guideUrl) {
+      setTargetBuild(null)
+      return true
+    }
+
+    isLoadingTarget.value = true
+    try {
+      const guide = await maxroll.fetchBuildGuide(guideUrl)
+      // The hero may have changed while the guide was loading
+      if (!guide || currentHero.value?.heroId !== hero.heroId) return false
+
+      setTargetBuild({ ...guide, guideUrl })
+      return true
+    } finally {
+      isLoadingTarget.value = false
+    }
+  }
+
+  /**
+   * Re-apply the target build previously chosen for the current hero
+   */
+  async function restoreTargetBuild(): Promise<void> {
+    const hero = currentHero.value
+    if (!hero || targetBuild.value || !settings.useMaxrollData) return
+
+    const guideUrl = loadTargetBuildUrls()[hero.heroId]
+    if (guideUrl) {
+      await selectTargetGuide(guideUrl)
+    }
+  }
+
   function getSuggestionsByType(type: Suggestion['type']): Suggestion[] {
     return suggestions.value.filter(s => s.type === type)
   }
@@ -61,7 +161,10 @@ export const useAnalysisStore = defineStore('analysis', () => {
   return {
     // State
     currentAnalysis,
+    currentHero,
+    targetBuild,
     isLoading,
+    isLoadingTarget,
     error,
 
     // Getters
@@ -69,10 +172,14 @@ export const useAnalysisStore = defineStore('analysis', () => {
     suggestions,
     highPrioritySuggestions,
     activeSets,
+    buildProgress,
 
     // Actions
     analyzeHero,
     clearAnalysis,
+    setTargetBuild,
+    selectTargetGuide,
+    restoreTargetBuild,
     getSuggestionsByType,
     getSlotAnalysis
   }
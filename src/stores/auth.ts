@@ -11,8 +11,11 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { authService, AuthenticationError } from '@/services/auth'
+import { useSettingsStore } from './settings'
 
 export const useAuthStore = defineStore('auth', () => {
+  const settings = useSettingsStore()
+
   // State
   const token = ref<string | null>(null)
   const tokenExpiry = ref(0)
@@ -22,6 +25,8 @@ export const useAuthStore = defineStore('auth', () => {
 
   // Computed
   const isAuthenticated = computed(() => {
+    // The proxy authenticates with its own credentials; there is no client token
+    if (settings.serverCredentials) return !!lastAuthenticated.value
     if (!token.value) return false
     const now = Math.floor(Date.now() / 1000)
     return now < tokenExpiry.value - 300 // 5 min buffer
@@ -39,6 +44,18 @@ export const useAuthStore = defineStore('auth', () => {
     error.value = null
 
     try {
+      const capabilities = await authService.getCapabilities()
+      if (capabilities && capabilities.serverCredentials !== settings.serverCredentials) {
+        settings.updateSettings({ serverCredentials: capabilities.serverCredentials })
+      }
+
+      if (settings.serverCredentials) {
+        token.value = null
+        tokenExpiry.value = 0
+        lastAuthenticated.value = new Date()
+        return true
+      }
+
       const newToken = await authService.getToken()
       const state = authService.getState()
 
@@ -77,6 +94,15 @@ export const useAuthStore = defineStore('auth', () => {
     return token.value!
   }
 
+  /**
+   * Token to send with proxied API requests, or null when the proxy holds the credentials
+   */
+  async function getProxyToken(): Promise<string | null> {
+    if (settings.serverCredentials && isAuthenticated.value) return null
+    const validToken = await getValidToken()
+    return settings.serverCredentials ? null : validToken
+  }
+
   function logout() {
     authService.invalidateToken()
     token.value = null
@@ -105,6 +131,7 @@ export const useAuthStore = defineStore('auth', () => {
     authenticate,
     refreshToken,
     getValidToken,
+    getProxyToken,
     logout,
     clearError
   }
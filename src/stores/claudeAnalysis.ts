@@ -18,6 +18,7 @@ import {
 } from '@/services/claudeAnalysis'
 import { useSettingsStore } from '@/stores/settings'
 import { maxrollDataService } from '@/services/maxrollData'
+import { leaderboardMetaService } from '@/services/leaderboardMeta'
 import type { Hero } from '@/types/hero'
 
 /** Combined recommendation type that can be either basic or enhanced */
@@ -78,8 +79,10 @@ export const useClaudeAnalysisStore = defineStore('claudeAnalysis', () => {
     try {
       // Try enhanced analysis with Maxroll data if enabled
       if (settings.useMaxrollData) {
-        // Fetch meta build for context
-        const metaBuild = await maxrollDataService.findMatchingMetaBuild(hero)
+        // Fetch meta build for context from the configured source
+        const metaBuild = settings.metaBuildSource === 'leaderboard'
+          ? await leaderboardMetaService.findLeaderboardMetaBuild(hero, { topN: settings.leaderboardSampleSize })
+          : await maxrollDataService.findMatchingMetaBuild(hero)
 
         const options: AnalysisOptions = {
           useMetaBuilds: true,
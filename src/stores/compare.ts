@@ -0,0 +1,215 @@
+/**
+ * @file stores/compare.ts
+ * @description Compare store for side-by-side analysis of two heroes
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { battleNetService, APIError } from '@/services/battlenet'
+import { analysisEngine, type GearAnalysis, type SlotAnalysis } from '@/services/analysisEngine'
+import type { AccountRef, Hero } from '@/types'
+import { GEAR_SLOTS } from '@/types/hero'
+
+export type CompareSide = 'a' | 'b' | 'tie'
+
+export interface SlotComparison {
+  slot: string
+  a: SlotAnalysis | null
+  b: SlotAnalysis | null
+  winner: CompareSide
+}
+
+export interface ValueComparison<T> {
+  key: string
+  label: string
+  a?: T
+  b?: T
+}
+
+export interface StatComparison extends ValueComparison<number> {
+  winner: CompareSide
+}
+
+function pickWinner(a: number, b: number): CompareSide {
+  if (a > b) return 'a'
+  if (b > a) return 'b'
+  return 'tie'
+}
+
+export const useCompareStore = defineStore('compare', () => {
+  // State
+  const heroA = ref<Hero | null>(null)
+  const heroB = ref<Hero | null>(null)
+  const analysisA = ref<GearAnalysis | null>(null)
+  const analysisB = ref<GearAnalysis | null>(null)
+  const isLoading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Getters
+  const isReady = computed(() => !!heroA.value && !!heroB.value)
+
+  const slotRows = computed<SlotComparison[]>(() => {
+    if (!analysisA.value || !analysisB.value) return []
+    return GEAR_SLOTS.map(slot => {
+      const a = analysisA.value!.slotAnalysis[slot] ?? null
+      const b = analysisB.value!.slotAnalysis[slot] ?? null
+      return { slot, a, b, winner: pickWinner(a?.score ?? 0, b?.score ?? 0) }
+    })
+  })
+
+  const slotWins = computed(() => ({
+    a: slotRows.value.filter(r => r.winner === 'a').length,
+    b: slotRows.value.filter(r => r.winner === 'b').length
+  }))
+
+  const sets = computed<ValueComparison<number>[]>(() => {
+    if (!analysisA.value || !analysisB.value) return []
+    const countsA = new Map(analysisA.value.setAnalysis.map(s => [s.setName, s.piecesEquipped]))
+    const countsB = new Map(analysisB.value.setAnalysis.map(s => [s.setName, s.piecesEquipped]))
+    const names = new Set([...countsA.keys(), ...countsB.keys()])
+    return [...names].map(name => ({
+      key: name,
+      label: name,
+      a: countsA.get(name),
+      b: countsB.get(name)
+    }))
+  })
+
+  const cubePowers = computed<ValueComparison<string>[]>(() => {
+    const slots: { key: 'weapon' | 'armor' | 'jewelry'; label: string }[] = [
+      { key: 'weapon', label: 'Weapon' },
+      { key: 'armor', label: 'Armor' },
+      { key: 'jewelry', label: 'Jewelry' }
+    ]
+    return slots.map(({ key, label }) => ({
+      key,
+      label,
+      a: heroA.value?.cubePowers?.[key],
+      b: heroB.value?.cubePowers?.[key]
+    }))
+  })
+
+  const legendaryGems = computed<ValueComparison<number>[]>(() => {
+    const ranksA = new Map((heroA.value?.legendaryGems ?? []).map(g => [g.name, g.rank ?? 0]))
+    const ranksB = new Map((heroB.value?.legendaryGems ?? []).map(g => [g.name, g.rank ?? 0]))
+    const names = new Set([...ranksA.keys(), ...ranksB.keys()])
+    return [...names].map(name => ({
+      key: name,
+      label: name,
+      a: ranksA.get(name),
+      b: ranksB.get(name)
+    }))
+  })
+
+  // Active skills keyed by slug, with the rune each hero uses
+  const activeSkills = computed<ValueComparison<string>[]>(() => {
+    const runesA = new Map((heroA.value?.activeSkills ?? []).map(s => [s.slug, s]))
+    const runesB = new Map((heroB.value?.activeSkills ?? []).map(s => [s.slug, s]))
+    const slugs = new Set([...runesA.keys(), ...runesB.keys()])
+    return [...slugs].map(slug => {
+      const a = runesA.get(slug)
+      const b = runesB.get(slug)
+      return {
+        key: slug,
+        label: (a ?? b)!.name,
+        a: a ? a.rune ?? 'No Rune' : undefined,
+        b: b ? b.rune ?? 'No Rune' : undefined
+      }
+    })
+  })
+
+  const passiveSkills = computed<ValueComparison<boolean>[]>(() => {
+    const passivesA = new Map((heroA.value?.passiveSkills ?? []).map(s => [s.slug, s.name]))
+    const passivesB = new Map((heroB.value?.passiveSkills ?? []).map(s => [s.slug, s.name]))
+    const slugs = new Set([...passivesA.keys(), ...passivesB.keys()])
+    return [...slugs].map(slug => ({
+      key: slug,
+      label: (passivesA.get(slug) ?? passivesB.get(slug))!,
+      a: passivesA.has(slug),
+      b: passivesB.has(slug)
+    }))
+  })
+
+  const stats = computed<StatComparison[]>(() => {
+    if (!heroA.value || !heroB.value) return []
+    const rows: ValueComparison<number>[] = [
+      { key: 'score', label: 'Gear Score', a: analysisA.value?.overallScore, b: analysisB.value?.overallScore },
+      { key: 'paragon', label: 'Paragon', a: heroA.value.paragonLevel, b: heroB.value.paragonLevel },
+      { key: 'damage', label: 'Damage', a: heroA.value.damage, b: heroB.value.damage },
+      { key: 'toughness', label: 'Toughness', a: heroA.value.toughness, b: heroB.value.toughness },
+      { key: 'recovery', label: 'Recovery', a: heroA.value.recovery, b: heroB.value.recovery },
+      { key: 'life', label: 'Life', a: heroA.value.life, b: heroB.value.life }
+    ]
+    return rows.map(row => ({ ...row, winner: pickWinner(row.a ?? 0, row.b ?? 0) }))
+  })
+
+  // Actions
+  async function loadHeroes(
+    idA: number,
+    idB: number,
+    accountA?: AccountRef,
+    accountB?: AccountRef
+  ): Promise<boolean> {
+    isLoading.value = true
+    error.value = null
+
+    try {
+      const [a, b] = await Promise.all([
+        battleNetService.getFullHero(idA, accountA),
+        battleNetService.getFullHero(idB, accountB)
+      ])
+      heroA.value = a
+      heroB.value = b
+      analysisA.value = analysisEngine.analyzeHero(a)
+      analysisB.value = analysisEngine.analyzeHero(b)
+      return true
+    } catch (e) {
+      if (e instanceof APIError) {
+        error.value = e.message
+      } else {
+        error.value = 'Failed to load heroes'
+      }
+      return false
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  function clearComparison() {
+    heroA.value = null
+    heroB.value = null
+    analysisA.value = null
+    analysisB.value = null
+    error.value = null
+  }
+
+  return {
+    // State
+    heroA,
+    heroB,
+    analysisA,
+    analysisB,
+    isLoading,
+    error,
+
+    // Getters
+    isReady,
+    slotRows,
+    slotWins,
+    sets,
+    cubePowers,
+    legendaryGems,
+    activeSkills,
+    passiveSkills,
+    stats,
+
+    // Actions
+    loadHeroes,
+    clearComparison
+  }
+})
@@ -11,7 +11,8 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { battleNetService, APIError } from '@/services/battlenet'
-import type { Hero, Item } from '@/types'
+import { heroHistoryService } from '@/services/heroHistory'
+import type { AccountRef, Hero, Item, RequestOptions } from '@/types'
 import { GEAR_SLOTS } from '@/types/hero'
 
 export const useHeroStore = defineStore('hero', () => {
@@ -50,13 +51,19 @@ export const useHeroStore = defineStore('hero', () => {
   })
 
   // Actions
-  async function loadHero(heroId: number): Promise<boolean> {
+  async function loadHero(heroId: number, account?: AccountRef, options?: RequestOptions): Promise<boolean> {
     isLoading.value = true
     error.value = null
 
     try {
-      currentHero.value = await battleNetService.getFullHero(heroId)
+      const hero = await battleNetService.getFullHero(heroId, account, options)
+      currentHero.value = hero
       lastFetched.value = new Date()
+
+      // Snapshot every fetch for the history timeline; failures are non-fatal
+      heroHistoryService.saveSnapshot(hero).catch(e => {
+        console.error('Failed to save hero snapshot:', e)
+      })
       return true
     } catch (e) {
       if (e instanceof APIError) {
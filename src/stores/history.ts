@@ -0,0 +1,128 @@
+/**
+ * @file stores/history.ts
+ * @description Hero history store for snapshot timelines and comparisons
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { heroHistoryService } from '@/services/heroHistory'
+import type { HeroSnapshot, HeroDiff } from '@/types'
+
+export const useHistoryStore = defineStore('history', () => {
+  // State
+  const heroId = ref<number | null>(null)
+  const snapshots = ref<HeroSnapshot[]>([])
+  const fromId = ref<number | null>(null)
+  const toId = ref<number | null>(null)
+  const isLoading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Computed
+  const latestSnapshot = computed(() =>
+    snapshots.value.length > 0 ? snapshots.value[snapshots.value.length - 1] : null
+  )
+
+  const fromSnapshot = computed(() =>
+    snapshots.value.find(s => s.id === fromId.value) || null
+  )
+
+  const toSnapshot = computed(() =>
+    snapshots.value.find(s => s.id === toId.value) || null
+  )
+
+  const selectedDiff = computed<HeroDiff | null>(() => {
+    if (!fromSnapshot.value || !toSnapshot.value) return null
+    const [older, newer] = fromSnapshot.value.capturedAt <= toSnapshot.value.capturedAt
+      ? [fromSnapshot.value, toSnapshot.value]
+      : [toSnapshot.value, fromSnapshot.value]
+    return heroHistoryService.diffSnapshots(older, newer)
+  })
+
+  // Diff of each snapshot against the one before it, newest first
+  const timeline = computed<HeroDiff[]>(() => {
+    const entries: HeroDiff[] = []
+    for (let i = snapshots.value.length - 1; i > 0; i--) {
+      entries.push(heroHistoryService.diffSnapshots(snapshots.value[i - 1], snapshots.value[i]))
+    }
+    return entries
+  })
+
+  // Actions
+  async function loadHistory(id: number): Promise<void> {
+    heroId.value = id
+    isLoading.value = true
+    error.value = null
+
+    try {
+      snapshots.value = await heroHistoryService.getSnapshots(id)
+
+      // Default comparison: previous snapshot vs latest
+      const count = snapshots.value.length
+      toId.value = count > 0 ? snapshots.value[count - 1].id ?? null : null
+      fromId.value = count > 1 ? snapshots.value[count - 2].id ?? null : toId.value
+    } catch (e) {
+      console.error('Failed to load hero history:', e)
+      error.value = 'Failed to load hero history'
+      snapshots.value = []
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  function selectRange(from: number, to: number) {
+    fromId.value = from
+    toId.value = to
+  }
+
+  async function deleteSnapshot(id: number): Promise<void> {
+    await heroHistoryService.deleteSnapshot(id)
+    if (heroId.value !== null) {
+      await loadHistory(heroId.value)
+    }
+  }
+
+  async function clearHistory(): Promise<void> {
+    if (heroId.value === null) return
+    await heroHistoryService.clearHeroHistory(heroId.value)
+    await loadHistory(heroId.value)
+  }
+
+  function formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    })
+  }
+
+  return {
+    // State
+    heroId,
+    snapshots,
+    fromId,
+    toId,
+    isLoading,
+    error,
+
+    // Computed
+    latestSnapshot,
+    fromSnapshot,
+    toSnapshot,
+    selectedDiff,
+    timeline,
+
+    // Actions
+    loadHistory,
+    selectRange,
+    deleteSnapshot,
+    clearHistory,
+    formatDate
+  }
+})
@@ -0,0 +1,131 @@
+/**
+ * @file stores/leaderboard.ts
+ * @description Leaderboard store for browsing Greater Rift rankings
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { battleNetService, APIError } from '@/services/battlenet'
+import { useSettingsStore } from '@/stores/settings'
+import type { Leaderboard, LeaderboardIndex, LeaderboardScope, Region } from '@/types'
+
+export const useLeaderboardStore = defineStore('leaderboard', () => {
+  const settings = useSettingsStore()
+
+  // State
+  const scope = ref<LeaderboardScope>('season')
+  const index = ref<LeaderboardIndex | null>(null)
+  const scopeId = ref<number | null>(null)
+  const classSlug = ref('barbarian')
+  const hardcore = ref(false)
+  const region = ref<Region>(settings.region)
+  const leaderboard = ref<Leaderboard | null>(null)
+  const isLoading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Leaderboards already fetched this session, keyed by region/scope/id/board
+  const cache = new Map<string, Leaderboard>()
+
+  // Getters
+  const scopeIds = computed(() =>
+    [...(index.value?.ids ?? [])].sort((a, b) => b - a)
+  )
+
+  const entries = computed(() => leaderboard.value?.entries ?? [])
+
+  // Actions
+  async function loadIndex(): Promise<boolean> {
+    isLoading.value = true
+    error.value = null
+
+    try {
+      index.value = await battleNetService.getLeaderboardIndex(scope.value, region.value)
+      scopeId.value = index.value.current
+      return true
+    } catch (e) {
+      error.value = e instanceof APIError ? e.message : 'Failed to load leaderboard index'
+      index.value = null
+      return false
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  async function loadLeaderboard(): Promise<boolean> {
+    if (scopeId.value === null) {
+      const loaded = await loadIndex()
+      if (!loaded) return false
+    }
+
+    const key = `${region.value}:${scope.value}:${scopeId.value}:${classSlug.value}:${hardcore.value}`
+    const cached = cache.get(key)
+    if (cached) {
+      leaderboard.value = cached
+      return true
+    }
+
+    isLoading.value = true
+    error.value = null
+
+    try {
+      const result = await battleNetService.getClassLeaderboard(
+        scope.value,
+        scopeId.value!,
+        classSlug.value,
+        hardcore.value,
+        region.value
+      )
+      cache.set(key, result)
+      leaderboard.value = result
+      return true
+    } catch (e) {
+      error.value = e instanceof APIError ? e.message : 'Failed to load leaderboard'
+      leaderboard.value = null
+      return false
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  async function setScope(next: LeaderboardScope): Promise<void> {
+    scope.value = next
+    scopeId.value = null
+    index.value = null
+    await loadLeaderboard()
+  }
+
+  async function setRegion(next: Region): Promise<void> {
+    region.value = next
+    scopeId.value = null
+    index.value = null
+    await loadLeaderboard()
+  }
+
+  return {
+    // State
+    scope,
+    index,
+    scopeId,
+    classSlug,
+    hardcore,
+    region,
+    leaderboard,
+    isLoading,
+    error,
+
+    // Getters
+    scopeIds,
+    entries,
+
+    // Actions
+    loadIndex,
+    loadLeaderboard,
+    setScope,
+    setRegion
+  }
+})
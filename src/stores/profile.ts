@@ -1,6 +1,6 @@
 /**
  * @file stores/profile.ts
- * @description Profile store for Battle.net account and hero list
+ * @description Profile store for Battle.net hero lists per saved account
  *
  * @author drsii
  * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20250514)
@@ -9,25 +9,101 @@
  */
 
 import { defineStore } from 'pinia'
-import { ref } from 'vue'
-import { battleNetService, APIError } from '@/services/battlenet'
-import type { HeroSummary } from '@/types'
+import { ref, computed } from 'vue'
+import { battleNetService, APIError, accountKey } from '@/services/battlenet'
+import { analysisEngine } from '@/services/analysisEngine'
+import { useSettingsStore } from './settings'
+import type { AccountRef, Hero, HeroOverview, HeroSummary, RequestOptions } from '@/types'
+
+const HERO_LISTS_KEY = 'dyerb-hero-lists'
+
+interface CachedHeroList {
+  heroes: HeroSummary[]
+  fetchedAt: number
+}
+
+function loadHeroLists(): Record<string, CachedHeroList> {
+  try {
+    const stored = localStorage.getItem(HERO_LISTS_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch {
+    return {}
+  }
+}
+
+function overviewKey(account: AccountRef, heroId: number): string {
+  return `${accountKey(account)}/${heroId}`
+}
+
+function toOverview(hero: Hero): HeroOverview {
+  const analysis = analysisEngine.analyzeHero(hero)
+  const mainSet = [...analysis.setAnalysis].sort((a, b) => b.effectivePieces - a.effectivePieces)[0]
+  return {
+    setName: mainSet?.setName,
+    setPieces: mainSet?.effectivePieces ?? 0,
+    cubePowers: hero.cubePowers,
+    gearScore: analysis.overallScore
+  }
+}
 
 export const useProfileStore = defineStore('profile', () => {
+  const settings = useSettingsStore()
+
   // State
-  const heroes = ref<HeroSummary[]>([])
+  // Hero lists per saved account, keyed by accountKey()
+  const heroLists = ref<Record<string, CachedHeroList>>(loadHeroLists())
   const isLoading = ref(false)
   const error = ref<string | null>(null)
-  const lastFetched = ref<Date | null>(null)
+
+  // Gear summaries for hero cards, keyed by account + hero id (kept in memory only)
+  const heroOverviews = ref<Record<string, HeroOverview>>({})
+  // Why a hero's summary couldn't be loaded, same keys
+  const overviewErrors = ref<Record<string, string>>({})
+  // Accounts with a summary fetch in flight, keyed by accountKey()
+  const overviewsLoading = ref<Record<string, boolean>>({})
+
+  // Looked-up player (any public BattleTag)
+  const lookupAccount = ref<AccountRef | null>(null)
+  const lookupHeroes = ref<HeroSummary[]>([])
+  const isLookingUp = ref(false)
+  const lookupError = ref<string | null>(null)
+
+  // Getters
+  const activeKey = computed(() => settings.activeAccount ? accountKey(settings.activeAccount) : null)
+
+  const heroes = computed(() => activeKey.value ? heroLists.value[activeKey.value]?.heroes ?? [] : [])
+
+  const lastFetched = computed(() => {
+    const list = activeKey.value ? heroLists.value[activeKey.value] : undefined
+    return list ? new Date(list.fetchedAt) : null
+  })
 
   // Actions
-  async function fetchHeroes(): Promise<boolean> {
+  function saveHeroLists() {
+    try {
+      localStorage.setItem(HERO_LISTS_KEY, JSON.stringify(heroLists.value))
+    } catch (e) {
+      console.error('Failed to save hero lists:', e)
+    }
+  }
+
+  /**
+   * Fetch the active account's heroes into its cached list
+   */
+  async function fetchHeroes(options?: RequestOptions): Promise<boolean> {
+    const account = settings.activeAccount
+    if (!account) return false
+
+    // Captured up front so switching accounts mid-request can't file heroes under the wrong one
+    const key = accountKey(account)
     isLoading.value = true
     error.value = null
 
     try {
-      heroes.value = await battleNetService.getHeroes()
-      lastFetched.value = new Date()
+      const list = await battleNetService.getHeroes(account, options)
+      heroLists.value = { ...heroLists.value, [key]: { heroes: list, fetchedAt: Date.now() } }
+      saveHeroLists()
+      fetchOverviews(account, list, options)
       return true
     } catch (e) {
       if (e instanceof APIError) {
@@ -41,26 +117,135 @@ export const useProfileStore = defineStore('profile', () => {
     }
   }
 
-  function clearHeroes() {
-    heroes.value = []
-    lastFetched.value = null
+  async function lookupPlayer(account: AccountRef): Promise<boolean> {
+    isLookingUp.value = true
+    lookupError.value = null
+
+    try {
+      lookupHeroes.value = await battleNetService.getHeroes(account)
+      lookupAccount.value = account
+      fetchOverviews(account, lookupHeroes.value)
+      return true
+    } catch (e) {
+      if (e instanceof APIError) {
+        lookupError.value = e.message
+      } else {
+        lookupError.value = 'Failed to look up player'
+      }
+      lookupHeroes.value = []
+      lookupAccount.value = null
+      return false
+    } finally {
+      isLookingUp.value = false
+    }
+  }
+
+  /**
+   * Load gear summaries for a hero list in one batched fetch. Heroes without a
+   * summary (including ones that failed last time) are fetched again on each call.
+   */
+  async function fetchOverviews(account: AccountRef, list: HeroSummary[], options?: RequestOptions) {
+    const loadingKey = accountKey(account)
+    if (overviewsLoading.value[loadingKey]) return
+
+    const heroIds = options?.forceRefresh
+      ? list.map(h => h.heroId)
+      : list.filter(h => !heroOverviews.value[overviewKey(account, h.heroId)]).map(h => h.heroId)
+    if (heroIds.length === 0) return
+
+    overviewsLoading.value = { ...overviewsLoading.value, [loadingKey]: true }
+    const errors = { ...overviewErrors.value }
+    heroIds.forEach(heroId => delete errors[overviewKey(account, heroId)])
+
+    try {
+      const { heroes: fullHeroes, failed } = await battleNetService.getFullHeroes(heroIds, account, options)
+      const loaded = Object.fromEntries(fullHeroes.map(hero => [overviewKey(account, hero.heroId), toOverview(hero)]))
+      heroOverviews.value = { ...heroOverviews.value, ...loaded }
+      failed.forEach(f => { errors[overviewKey(account, f.heroId)] = f.error })
+    } catch (e) {
+      const message = e instanceof APIError ? e.message : 'Failed to load hero gear'
+      heroIds.forEach(heroId => { errors[overviewKey(account, heroId)] = message })
+    } finally {
+      overviewErrors.value = errors
+      const loading = { ...overviewsLoading.value }
+      delete loading[loadingKey]
+      overviewsLoading.value = loading
+    }
+  }
+
+  function getOverview(heroId: number, account?: AccountRef | null): HeroOverview | undefined {
+    const owner = account ?? settings.activeAccount
+    return owner ? heroOverviews.value[overviewKey(owner, heroId)] : undefined
+  }
+
+  function getOverviewError(heroId: number, account?: AccountRef | null): string | undefined {
+    const owner = account ?? settings.activeAccount
+    return owner ? overviewErrors.value[overviewKey(owner, heroId)] : undefined
+  }
+
+  /**
+   * Heroes in a list whose summary failed to load
+   */
+  function countOverviewErrors(account: AccountRef | null, list: HeroSummary[]): number {
+    return account ? list.filter(h => overviewErrors.value[overviewKey(account, h.heroId)]).length : 0
+  }
+
+  function isLoadingOverviews(account: AccountRef | null): boolean {
+    return account ? !!overviewsLoading.value[accountKey(account)] : false
+  }
+
+  function clearLookup() {
+    lookupAccount.value = null
+    lookupHeroes.value = []
+    lookupError.value = null
+  }
+
+  function clearHeroes(account?: AccountRef) {
+    const key = account ? accountKey(account) : activeKey.value
+    if (key) {
+      const lists = { ...heroLists.value }
+      delete lists[key]
+      heroLists.value = lists
+      saveHeroLists()
+    }
     error.value = null
   }
 
+  function getCachedHeroes(account: AccountRef): HeroSummary[] {
+    return heroLists.value[accountKey(account)]?.heroes ?? []
+  }
+
   function getHeroById(heroId: number): HeroSummary | undefined {
     return heroes.value.find(h => h.heroId === heroId)
   }
 
   return {
     // State
-    heroes,
+    heroLists,
     isLoading,
     error,
+    lookupAccount,
+    lookupHeroes,
+    isLookingUp,
+    lookupError,
+    heroOverviews,
+    overviewErrors,
+
+    // Getters
+    heroes,
     lastFetched,
 
     // Actions
     fetchHeroes,
+    fetchOverviews,
+    getOverview,
+    getOverviewError,
+    countOverviewErrors,
+    isLoadingOverviews,
+    lookupPlayer,
+    clearLookup,
     clearHeroes,
+    getCachedHeroes,
     getHeroById
   }
 })
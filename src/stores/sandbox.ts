@@ -0,0 +1,408 @@
+/**
+ * @file stores/sandbox.ts
+ * @description Gear-swap "what if" sandbox: a modified copy of the hero compared live with the real one
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { analysisEngine } from '@/services/analysisEngine'
+import { damageCalculator, itemFromName } from '@/services/damageCalculator'
+import { toughnessCalculator } from '@/services/toughnessCalculator'
+import { useAnalysisStore } from '@/stores/analysis'
+import { useClaudeAnalysisStore } from '@/stores/claudeAnalysis'
+import type { CubePowers, Gem, Hero, Item } from '@/types/hero'
+import { GEAR_SLOTS, SLOT_NAMES } from '@/types/hero'
+import { CUBE_SLOTS, CUBE_SLOT_NAMES } from '@/types/cube'
+import type { CubeSlot } from '@/types/cube'
+import type {
+  SandboxChange,
+  SandboxComparison,
+  SandboxItemOption,
+  SandboxSetDelta
+} from '@/types/sandbox'
+import {
+  CUBE_POWERS,
+  ITEM_ACQUISITION,
+  LEGENDARY_GEM_COOLDOWN,
+  LEGENDARY_GEM_DAMAGE,
+  LEGENDARY_GEM_DEFENSE,
+  SET_CATALOG
+} from '@/data/d3Reference'
+
+const STASH_KEY = 'dyerb-sandbox-stash'
+
+// Stashed items kept at most
+const MAX_STASH = 50
+
+const RING_SLOTS = ['leftFinger', 'rightFinger']
+
+// Gear slots an item of each cube category can be worn in
+const CUBE_SLOT_GEAR: Record<CubeSlot, string[]> = {
+  weapon: ['mainHand', 'offHand'],
+  armor: ['head', 'shoulders', 'torso', 'hands', 'wrists', 'waist', 'legs', 'feet'],
+  jewelry: ['neck', ...RING_SLOTS]
+}
+
+function cloneHero(hero: Hero): Hero {
+  return JSON.parse(JSON.stringify(hero))
+}
+
+/**
+ * Gear slots named in a slot list like "leftFinger" or "waist,legs,wrists".
+ * Rings fit either finger.
+ */
+function parseSlots(slotList: string): string[] {
+  const slots = slotList.split(',').map(s => s.trim()).filter(s => (GEAR_SLOTS as readonly string[]).includes(s))
+  return slots.some(s => RING_SLOTS.includes(s)) ? [...new Set([...slots, ...RING_SLOTS])] : slots
+}
+
+/**
+ * Gear slot key for an item's display slot name ("Left Ring" -> "leftFinger")
+ */
+function slotKeyOf(slotName: string): string {
+  return Object.keys(SLOT_NAMES).find(key => SLOT_NAMES[key] === slotName) ?? slotName
+}
+
+/**
+ * Every catalogued set piece and legendary, by name
+ */
+function buildCatalog(): SandboxItemOption[] {
+  const options = new Map<string, SandboxItemOption>()
+
+  for (const entry of Object.values(SET_CATALOG)) {
+    for (const piece of entry.pieces) {
+      options.set(piece.name, { name: piece.name, slots: parseSlots(piece.slot), source: 'catalog' })
+    }
+  }
+
+  for (const [name, info] of Object.entries(ITEM_ACQUISITION)) {
+    // Multi-slot entries are whole sets, covered by their pieces above
+    if (options.has(name) || !info.slot || info.slot.includes(',')) continue
+    const slots = parseSlots(info.slot)
+    if (slots.length > 0) options.set(name, { name, slots, source: 'catalog' })
+  }
+
+  // Cubeable powers only say weapon, armor or jewelry
+  for (const [name, info] of Object.entries(CUBE_POWERS)) {
+    if (!options.has(name)) {
+      options.set(name, { name, slots: CUBE_SLOT_GEAR[info.slot], source: 'catalog' })
+    }
+  }
+
+  return [...options.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Whether an option can go in a gear slot (unknown slots fit anywhere)
+ */
+export function fitsSlot(option: SandboxItemOption, slot: string): boolean {
+  return option.slots.length === 0 || option.slots.includes(slot)
+}
+
+export const useSandboxStore = defineStore('sandbox', () => {
+  const analysisStore = useAnalysisStore()
+  const claudeStore = useClaudeAnalysisStore()
+
+  // State
+  const baseHero = ref<Hero | null>(null)
+  const hero = ref<Hero | null>(null)
+  const stash = ref<Item[]>([])
+
+  function loadStash() {
+    try {
+      const stored = localStorage.getItem(STASH_KEY)
+      if (stored) {
+        stash.value = JSON.parse(stored)
+      }
+    } catch (e) {
+      console.error('Failed to load sandbox stash:', e)
+      stash.value = []
+    }
+  }
+
+  function saveStash() {
+    try {
+      localStorage.setItem(STASH_KEY, JSON.stringify(stash.value))
+    } catch (e) {
+      console.error('Failed to save sandbox stash:', e)
+    }
+  }
+
+  // Initialize
+  loadStash()
+
+  // Getters
+  const isActive = computed(() => !!hero.value)
+
+  const catalog = computed(buildCatalog)
+
+  // Legendary gems the sandbox can socket
+  const gemNames = computed(() => [...new Set([
+    ...Object.keys(LEGENDARY_GEM_DAMAGE),
+    ...Object.keys(LEGENDARY_GEM_DEFENSE),
+    ...Object.keys(LEGENDARY_GEM_COOLDOWN),
+    ...Object.entries(ITEM_ACQUISITION).filter(([, info]) => info.slot === 'gem').map(([name]) => name)
+  ])].sort())
+
+  const stashOptions = computed<SandboxItemOption[]>(() =>
+    stash.value.map(item => ({ name: item.name, slots: parseSlots(slotKeyOf(item.slot)), source: 'stash', item }))
+  )
+
+  // Target build items and the latest Claude recommendation for this hero
+  const recommendationOptions = computed<SandboxItemOption[]>(() => {
+    const options: SandboxItemOption[] = []
+    const buildName = analysisStore.targetBuild?.buildName
+
+    for (const analysis of Object.values(analysisStore.currentAnalysis?.slotAnalysis ?? {})) {
+      if (!analysis.targetItem || analysis.buildMatch === 'primary') continue
+      options.push({
+        name: analysis.targetItem,
+        slots: parseSlots(analysis.slot),
+        source: 'recommendation',
+        note: buildName ? `${buildName} target` : 'Target build'
+      })
+    }
+
+    const recommendation = claudeStore.recommendation
+    if (recommendation && claudeStore.analyzedHeroId === baseHero.value?.heroId) {
+      for (const rec of recommendation.gear.items) {
+        if (!rec.item || options.some(o => o.name === rec.item)) continue
+        options.push({ name: rec.item, slots: parseSlots(rec.slot), source: 'recommendation', note: rec.reason })
+      }
+    }
+
+    return options
+  })
+
+  const changes = computed<SandboxChange[]>(() => {
+    const base = baseHero.value
+    const next = hero.value
+    if (!base || !next) return []
+
+    const result: SandboxChange[] = []
+    for (const slot of GEAR_SLOTS) {
+      const from = base.items[slot]?.name
+      const to = next.items[slot]?.name
+      if (from !== to) result.push({ kind: 'item', key: slot, label: SLOT_NAMES[slot] || slot, from, to })
+    }
+
+    for (const slot of CUBE_SLOTS) {
+      const from = base.cubePowers?.[slot]
+      const to = next.cubePowers?.[slot]
+      if (from !== to) result.push({ kind: 'cube', key: slot, label: `Cube ${CUBE_SLOT_NAMES[slot]}`, from, to })
+    }
+
+    const gemLabel = (gem?: Gem) => gem ? `${gem.name}${gem.rank !== undefined ? ` (${gem.rank})` : ''}` : undefined
+    const gemCount = Math.max(base.legendaryGems.length, next.legendaryGems.length)
+    for (let i = 0; i < gemCount; i++) {
+      const from = gemLabel(base.legendaryGems[i])
+      const to = gemLabel(next.legendaryGems[i])
+      if (from !== to) result.push({ kind: 'gem', key: String(i), label: `Gem ${i + 1}`, from, to })
+    }
+
+    const skillChanges = (kind: 'skill' | 'passive', before: Hero['activeSkills'], after: Hero['activeSkills']) => {
+      for (let i = 0; i < Math.max(before.length, after.length); i++) {
+        const from = before[i]?.name
+        const to = after[i]?.name
+        if (from !== to) {
+          result.push({ kind, key: String(i), label: `${kind === 'skill' ? 'Skill' : 'Passive'} ${i + 1}`, from, to })
+        }
+      }
+    }
+    skillChanges('skill', base.activeSkills, next.activeSkills)
+    skillChanges('passive', base.passiveSkills, next.passiveSkills)
+
+    return result
+  })
+
+  const comparison = computed<SandboxComparison | null>(() => {
+    const base = baseHero.value
+    const next = hero.value
+    if (!base || !next) return null
+
+    const target = analysisStore.targetBuild
+    const before = analysisEngine.analyzeHero(base, target)
+    const after = analysisEngine.analyzeHero(next, target)
+
+    const setNames = new Set([...before.setAnalysis, ...after.setAnalysis].map(s => s.setName))
+    const sets: SandboxSetDelta[] = [...setNames]
+      .map(setName => {
+        const a = before.setAnalysis.find(s => s.setName === setName)
+        const b = after.setAnalysis.find(s => s.setName === setName)
+        return {
+          setName,
+          piecesBefore: a?.effectivePieces ?? 0,
+          piecesAfter: b?.effectivePieces ?? 0,
+          bonusesBefore: a?.activeBonuses.length ?? 0,
+          bonusesAfter: b?.activeBonuses.length ?? 0
+        }
+      })
+      .filter(s => s.piecesBefore !== s.piecesAfter || s.bonusesBefore !== s.bonusesAfter)
+
+    const beforeMessages = new Set(before.suggestions.map(s => s.message))
+    const afterMessages = new Set(after.suggestions.map(s => s.message))
+
+    return {
+      damage: damageCalculator.compareLoadout(base, next),
+      toughness: toughnessCalculator.compareLoadout(base, next),
+      scoreBefore: before.overallScore,
+      scoreAfter: after.overallScore,
+      sets,
+      addedSuggestions: [...afterMessages].filter(m => !beforeMessages.has(m)),
+      clearedSuggestions: [...beforeMessages].filter(m => !afterMessages.has(m))
+    }
+  })
+
+  // Actions
+  function start(source: Hero) {
+    baseHero.value = cloneHero(source)
+    hero.value = cloneHero(source)
+  }
+
+  function exit() {
+    baseHero.value = null
+    hero.value = null
+  }
+
+  function reset() {
+    if (baseHero.value) {
+      hero.value = cloneHero(baseHero.value)
+    }
+  }
+
+  /**
+   * Put an item in a slot. Name-only options keep the affixes of the item they replace.
+   */
+  function equipItem(slot: string, option: SandboxItemOption): boolean {
+    if (!hero.value || !fitsSlot(option, slot)) return false
+
+    const current = hero.value.items[slot]
+    const item = option.item
+      ? { ...cloneItem(option.item), slot: SLOT_NAMES[slot] || slot }
+      : itemFromName(option.name, slot, current)
+    hero.value.items = { ...hero.value.items, [slot]: item }
+    syncLegendaryGems()
+    return true
+  }
+
+  function restoreItem(slot: string) {
+    if (!hero.value || !baseHero.value) return
+    const original = baseHero.value.items[slot]
+    if (!original) {
+      removeItem(slot)
+      return
+    }
+    hero.value.items = { ...hero.value.items, [slot]: cloneItem(original) }
+    syncLegendaryGems()
+  }
+
+  function removeItem(slot: string) {
+    if (!hero.value) return
+    const items = { ...hero.value.items }
+    delete items[slot]
+    hero.value.items = items
+    syncLegendaryGems()
+  }
+
+  function setCubePower(slot: CubeSlot, power: string) {
+    if (!hero.value) return
+    const cubePowers: CubePowers = { ...hero.value.cubePowers }
+    if (power) cubePowers[slot] = power
+    else delete cubePowers[slot]
+    hero.value.cubePowers = cubePowers
+  }
+
+  /**
+   * Replace a socketed legendary gem (by its position in the hero's gem list)
+   */
+  function setGem(index: number, name: string, rank?: number) {
+    const current = hero.value?.legendaryGems[index]
+    if (!hero.value || !current) return
+
+    const next: Gem = { ...current, name, rank, attributes: name === current.name ? current.attributes : [] }
+    let replaced = false
+    const items: Record<string, Item> = {}
+    for (const [slot, item] of Object.entries(hero.value.items)) {
+      items[slot] = {
+        ...item,
+        gems: item.gems.map(gem => {
+          if (replaced || !gem.isLegendary || gem.name !== current.name) return gem
+          replaced = true
+          return next
+        })
+      }
+    }
+    hero.value.items = items
+    syncLegendaryGems()
+  }
+
+  function setActiveSkill(index: number, name: string) {
+    if (!hero.value) return
+    const skills = [...hero.value.activeSkills]
+    skills[index] = { name, slug: name.toLowerCase().replace(/[^a-z0-9]+/g, '-') }
+    hero.value.activeSkills = skills
+  }
+
+  function setPassiveSkill(index: number, name: string) {
+    if (!hero.value) return
+    const skills = [...hero.value.passiveSkills]
+    skills[index] = { name, slug: name.toLowerCase().replace(/[^a-z0-9]+/g, '-') }
+    hero.value.passiveSkills = skills
+  }
+
+  function stashItem(item: Item) {
+    stash.value = [cloneItem(item), ...stash.value.filter(i => i.name !== item.name || i.slot !== item.slot)]
+      .slice(0, MAX_STASH)
+    saveStash()
+  }
+
+  function removeFromStash(index: number) {
+    stash.value.splice(index, 1)
+    saveStash()
+  }
+
+  // Keep the hero-level gem list in step with the gems socketed in its items
+  function syncLegendaryGems() {
+    if (!hero.value) return
+    hero.value.legendaryGems = Object.values(hero.value.items).flatMap(item => item.gems.filter(g => g.isLegendary))
+  }
+
+  function cloneItem(item: Item): Item {
+    return JSON.parse(JSON.stringify(item))
+  }
+
+  return {
+    // State
+    baseHero,
+    hero,
+    stash,
+
+    // Getters
+    isActive,
+    catalog,
+    gemNames,
+    stashOptions,
+    recommendationOptions,
+    changes,
+    comparison,
+
+    // Actions
+    start,
+    exit,
+    reset,
+    equipItem,
+    restoreItem,
+    removeItem,
+    setCubePower,
+    setGem,
+    setActiveSkill,
+    setPassiveSkill,
+    stashItem,
+    removeFromStash
+  }
+})
@@ -10,8 +10,13 @@
 
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import type { Region } from '@/types'
+import type { AccountProfile, AccountRef, Region } from '@/types'
 import type { FarmingMethod } from '@/types/progression'
+import type { MetaBuildSource } from '@/types/maxroll'
+import { DEFAULT_LEADERBOARD_SAMPLE_SIZE } from '@/types/leaderboard'
+import { DEFAULT_VAULT_AUTO_LOCK_MINUTES } from '@/types/vault'
+import { accountKey } from '@/services/battlenet'
+import { useVaultStore } from './vault'
 
 const STORAGE_KEY = 'dyerb-settings'
 
@@ -23,11 +28,23 @@ interface StoredSettings {
   clientSecret: string
   region: Region
   battletag: string
+  // Saved accounts; battletag/region mirror the active one
+  accounts: AccountProfile[]
+  activeAccountId: string | null
   proxyUrl: string
+  // The proxy holds the Battle.net credentials (detected from its /health endpoint)
+  serverCredentials: boolean
+  // Shared secret for HMAC-signing proxy requests, when the worker requires it
+  proxySigningKey: string
   claudeApiKey: string
+  // Minutes of inactivity before the credential vault locks (0 = never)
+  vaultAutoLockMinutes: number
   // External data preferences
   useMaxrollData: boolean
   maxrollCacheEnabled: boolean
+  metaBuildSource: MetaBuildSource
+  // Top leaderboard clears sampled for leaderboard meta
+  leaderboardSampleSize: number
   // Farming preferences
   preferredFarmingMethods: FarmingMethod[]
   // UI preferences
@@ -45,13 +62,20 @@ export const useSettingsStore = defineStore('settings', () => {
   const clientSecret = ref('')
   const region = ref<Region>('us')
   const battletag = ref('')
+  const accounts = ref<AccountProfile[]>([])
+  const activeAccountId = ref<string | null>(null)
   const proxyUrl = ref('https://d3-proxy.YOUR-SUBDOMAIN.workers.dev') // Will be updated
+  const serverCredentials = ref(false)
+  const proxySigningKey = ref('')
   const claudeApiKey = ref('')
+  const vaultAutoLockMinutes = ref(DEFAULT_VAULT_AUTO_LOCK_MINUTES)
   const sidebarOpen = ref(true)
 
   // External data preferences
   const useMaxrollData = ref(true)
   const maxrollCacheEnabled = ref(true)
+  const metaBuildSource = ref<MetaBuildSource>('maxroll')
+  const leaderboardSampleSize = ref(DEFAULT_LEADERBOARD_SAMPLE_SIZE)
 
   // Farming preferences
   const preferredFarmingMethods = ref<FarmingMethod[]>([...DEFAULT_FARMING_METHODS])
@@ -60,10 +84,17 @@ export const useSettingsStore = defineStore('settings', () => {
   const defaultViewMode = ref<RecommendationViewMode>('categorized')
 
   // Computed
+  // Secrets held in the credential vault count as configured even while it is locked
   const isConfigured = computed(() => {
-    return !!(clientId.value && clientSecret.value && battletag.value)
+    const hasCredentials = serverCredentials.value ||
+      !!(clientId.value && useVaultStore().hasSecret('clientSecret'))
+    return hasCredentials && !!battletag.value
   })
 
+  const activeAccount = computed(() =>
+    accounts.value.find(a => a.id === activeAccountId.value) ?? null
+  )
+
   const formattedBattletag = computed(() => {
     // Convert Player#1234 to Player-1234 for API URLs
     return battletag.value.replace('#', '-')
@@ -89,11 +120,26 @@ export const useSettingsStore = defineStore('settings', () => {
         clientSecret.value = data.clientSecret || ''
         region.value = data.region || 'us'
         battletag.value = data.battletag || ''
+        accounts.value = data.accounts ?? []
+        activeAccountId.value = data.activeAccountId ?? null
+        // Settings saved before account profiles hold a single account
+        if (accounts.value.length === 0 && battletag.value) {
+          const account: AccountRef = { battletag: battletag.value, region: region.value }
+          accounts.value = [{ id: accountKey(account), ...account }]
+        }
+        if (!activeAccount.value && accounts.value.length > 0) {
+          activeAccountId.value = accounts.value[0].id
+        }
         proxyUrl.value = data.proxyUrl || proxyUrl.value
+        serverCredentials.value = data.serverCredentials ?? false
+        proxySigningKey.value = data.proxySigningKey || ''
         claudeApiKey.value = data.claudeApiKey || ''
+        vaultAutoLockMinutes.value = data.vaultAutoLockMinutes ?? DEFAULT_VAULT_AUTO_LOCK_MINUTES
         // External data preferences
         useMaxrollData.value = data.useMaxrollData ?? true
         maxrollCacheEnabled.value = data.maxrollCacheEnabled ?? true
+        metaBuildSource.value = data.metaBuildSource ?? 'maxroll'
+        leaderboardSampleSize.value = data.leaderboardSampleSize ?? DEFAULT_LEADERBOARD_SAMPLE_SIZE
         // Farming preferences
         preferredFarmingMethods.value = data.preferredFarmingMethods ?? [...DEFAULT_FARMING_METHODS]
         // UI preferences
@@ -111,10 +157,17 @@ export const useSettingsStore = defineStore('settings', () => {
         clientSecret: clientSecret.value,
         region: region.value,
         battletag: battletag.value,
+        accounts: accounts.value,
+        activeAccountId: activeAccountId.value,
         proxyUrl: proxyUrl.value,
+        serverCredentials: serverCredentials.value,
+        proxySigningKey: proxySigningKey.value,
         claudeApiKey: claudeApiKey.value,
+        vaultAutoLockMinutes: vaultAutoLockMinutes.value,
         useMaxrollData: useMaxrollData.value,
         maxrollCacheEnabled: maxrollCacheEnabled.value,
+        metaBuildSource: metaBuildSource.value,
+        leaderboardSampleSize: leaderboardSampleSize.value,
         preferredFarmingMethods: preferredFarmingMethods.value,
         defaultViewMode: defaultViewMode.value
       }
@@ -129,10 +182,18 @@ export const useSettingsStore = defineStore('settings', () => {
     if (settings.clientSecret !== undefined) clientSecret.value = settings.clientSecret
     if (settings.region !== undefined) region.value = settings.region
     if (settings.battletag !== undefined) battletag.value = settings.battletag
+    if (settings.region !== undefined || settings.battletag !== undefined) {
+      syncActiveAccount()
+    }
     if (settings.proxyUrl !== undefined) proxyUrl.value = settings.proxyUrl
+    if (settings.serverCredentials !== undefined) serverCredentials.value = settings.serverCredentials
+    if (settings.proxySigningKey !== undefined) proxySigningKey.value = settings.proxySigningKey
     if (settings.claudeApiKey !== undefined) claudeApiKey.value = settings.claudeApiKey
+    if (settings.vaultAutoLockMinutes !== undefined) vaultAutoLockMinutes.value = settings.vaultAutoLockMinutes
     if (settings.useMaxrollData !== undefined) useMaxrollData.value = settings.useMaxrollData
     if (settings.maxrollCacheEnabled !== undefined) maxrollCacheEnabled.value = settings.maxrollCacheEnabled
+    if (settings.metaBuildSource !== undefined) metaBuildSource.value = settings.metaBuildSource
+    if (settings.leaderboardSampleSize !== undefined) leaderboardSampleSize.value = settings.leaderboardSampleSize
     if (settings.preferredFarmingMethods !== undefined) preferredFarmingMethods.value = settings.preferredFarmingMethods
     if (settings.defaultViewMode !== undefined) defaultViewMode.value = settings.defaultViewMode
     saveToStorage()
@@ -143,9 +204,16 @@ export const useSettingsStore = defineStore('settings', () => {
     clientSecret.value = ''
     region.value = 'us'
     battletag.value = ''
+    accounts.value = []
+    activeAccountId.value = null
+    serverCredentials.value = false
+    proxySigningKey.value = ''
     claudeApiKey.value = ''
+    vaultAutoLockMinutes.value = DEFAULT_VAULT_AUTO_LOCK_MINUTES
     useMaxrollData.value = true
     maxrollCacheEnabled.value = true
+    metaBuildSource.value = 'maxroll'
+    leaderboardSampleSize.value = DEFAULT_LEADERBOARD_SAMPLE_SIZE
     preferredFarmingMethods.value = [...DEFAULT_FARMING_METHODS]
     defaultViewMode.value = 'categorized'
     localStorage.removeItem(STORAGE_KEY)
@@ -183,13 +251,91 @@ export const useSettingsStore = defineStore('settings', () => {
     clientSecret.value = ''
     region.value = 'us'
     battletag.value = ''
+    accounts.value = []
+    activeAccountId.value = null
     proxyUrl.value = 'https://dyerb-proxy.YOUR-SUBDOMAIN.workers.dev'
+    serverCredentials.value = false
+    proxySigningKey.value = ''
     claudeApiKey.value = ''
+    vaultAutoLockMinutes.value = DEFAULT_VAULT_AUTO_LOCK_MINUTES
+  }
+
+  /**
+   * Save an account profile, or return the existing one for the same account
+   */
+  function addAccount(account: AccountRef, label?: string): AccountProfile {
+    const id = accountKey(account)
+    const existing = accounts.value.find(a => a.id === id)
+    if (existing) return existing
+
+    const profile: AccountProfile = { id, battletag: account.battletag, region: account.region, label }
+    accounts.value.push(profile)
+    if (!activeAccountId.value) switchAccount(id)
+    saveToStorage()
+    return profile
+  }
+
+  function updateAccount(id: string, changes: Partial<Pick<AccountProfile, 'label'>>) {
+    const profile = accounts.value.find(a => a.id === id)
+    if (!profile) return
+    if (changes.label !== undefined) profile.label = changes.label.trim() || undefined
+    saveToStorage()
+  }
+
+  function removeAccount(id: string) {
+    accounts.value = accounts.value.filter(a => a.id !== id)
+    if (activeAccountId.value === id) {
+      const next = accounts.value[0]
+      if (next) {
+        switchAccount(next.id)
+      } else {
+        activeAccountId.value = null
+        battletag.value = ''
+      }
+    }
+    saveToStorage()
+  }
+
+  /**
+   * Make a saved account the one the app queries by default
+   */
+  function switchAccount(id: string) {
+    const profile = accounts.value.find(a => a.id === id)
+    if (!profile) return
+    activeAccountId.value = id
+    battletag.value = profile.battletag
+    region.value = profile.region
+    saveToStorage()
+  }
+
+  /**
+   * Point the active profile at the BattleTag and region edited in settings
+   */
+  function syncActiveAccount() {
+    if (!battletag.value) return
+    const account: AccountRef = { battletag: battletag.value, region: region.value }
+    const id = accountKey(account)
+    const existing = accounts.value.find(a => a.id === id)
+    if (existing) {
+      activeAccountId.value = id
+      return
+    }
+
+    const current = activeAccount.value
+    if (current) {
+      current.id = id
+      current.battletag = account.battletag
+      current.region = account.region
+      activeAccountId.value = id
+    } else {
+      accounts.value.push({ id, ...account })
+      activeAccountId.value = id
+    }
   }
 
   // Computed for Claude
   const isClaudeConfigured = computed(() => {
-    return !!claudeApiKey.value
+    return useVaultStore().hasSecret('claudeApiKey')
   })
 
   function toggleSidebar() {
@@ -205,12 +351,19 @@ export const useSettingsStore = defineStore('settings', () => {
     clientSecret,
     region,
     battletag,
+    accounts,
+    activeAccountId,
     proxyUrl,
+    serverCredentials,
+    proxySigningKey,
     claudeApiKey,
+    vaultAutoLockMinutes,
     sidebarOpen,
     // External data preferences
     useMaxrollData,
     maxrollCacheEnabled,
+    metaBuildSource,
+    leaderboardSampleSize,
     // Farming preferences
     preferredFarmingMethods,
     // UI preferences
@@ -219,6 +372,7 @@ export const useSettingsStore = defineStore('settings', () => {
     // Computed
     isConfigured,
     isClaudeConfigured,
+    activeAccount,
     formattedBattletag,
     apiBaseUrl,
 
@@ -228,6 +382,10 @@ export const useSettingsStore = defineStore('settings', () => {
     updateSettings,
     clearSettings,
     destroyAllData,
+    addAccount,
+    updateAccount,
+    removeAccount,
+    switchAccount,
     toggleSidebar
   }
 })
@@ -0,0 +1,270 @@
+/**
+ * @file stores/vault.ts
+ * @description Credential vault store - passphrase unlock, auto-lock and plaintext migration
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { vaultService, VaultError } from '@/services/vault'
+import { useSettingsStore } from './settings'
+import type { EncryptedVault, VaultSecretName, VaultSecrets } from '@/types/vault'
+import { VAULT_MIN_PASSPHRASE_LENGTH, VAULT_SECRET_NAMES } from '@/types/vault'
+
+const VAULT_KEY = 'dyerb-vault'
+
+function loadVault(): EncryptedVault | null {
+  try {
+    const stored = localStorage.getItem(VAULT_KEY)
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+function saveVault(vault: EncryptedVault | null): void {
+  try {
+    if (vault) localStorage.setItem(VAULT_KEY, JSON.stringify(vault))
+    else localStorage.removeItem(VAULT_KEY)
+  } catch (e) {
+    console.error('Failed to save credential vault:', e)
+  }
+}
+
+// Blank values for every secret, to wipe them from plaintext settings
+function emptySecrets(): VaultSecrets {
+  return Object.fromEntries(VAULT_SECRET_NAMES.map(name => [name, ''])) as VaultSecrets
+}
+
+export const useVaultStore = defineStore('vault', () => {
+  const settings = useSettingsStore()
+
+  // State
+  const vault = ref<EncryptedVault | null>(loadVault())
+  const secrets = ref<VaultSecrets | null>(null)
+  const isBusy = ref(false)
+  const error = ref<string | null>(null)
+  const showUnlockPrompt = ref(!!vault.value)
+
+  // Derived key while unlocked, kept out of reactive state
+  let key: CryptoKey | null = null
+  let lockTimer: ReturnType<typeof setTimeout> | null = null
+
+  // Getters
+  const isEnabled = computed(() => !!vault.value)
+  const isLocked = computed(() => isEnabled.value && !secrets.value)
+
+  /**
+   * Whether a secret is set, without needing the vault unlocked
+   */
+  function hasSecret(name: VaultSecretName): boolean {
+    if (vault.value) return vault.value.secretNames.includes(name)
+    return !!settings[name]
+  }
+
+  // Actions
+
+  /**
+   * Read a secret: from the unlocked vault when enabled, else from plaintext settings.
+   * Returns null (and asks for the passphrase) while the vault is locked.
+   */
+  function readSecret(name: VaultSecretName): string | null {
+    if (!vault.value) return settings[name]
+    if (!secrets.value) {
+      showUnlockPrompt.value = true
+      return null
+    }
+    touch()
+    return secrets.value[name]
+  }
+
+  /**
+   * Create the vault, moving plaintext secrets out of settings storage
+   */
+  async function enable(passphrase: string): Promise<boolean> {
+    if (vault.value) return true
+    return run(async () => {
+      assertPassphrase(passphrase)
+      const plaintext = Object.fromEntries(
+        VAULT_SECRET_NAMES.map(name => [name, settings[name]])
+      ) as VaultSecrets
+      const created = await vaultService.create(plaintext, passphrase)
+      persist(created.vault)
+      settings.updateSettings(emptySecrets())
+      open(plaintext, created.key)
+    })
+  }
+
+  async function unlock(passphrase: string): Promise<boolean> {
+    if (!vault.value) return true
+    const current = vault.value
+    return run(async () => {
+      const opened = await vaultService.open(current, passphrase)
+      open(opened.secrets, opened.key)
+      await absorbPlaintext()
+    })
+  }
+
+  function lock() {
+    if (lockTimer) clearTimeout(lockTimer)
+    lockTimer = null
+    secrets.value = null
+    key = null
+  }
+
+  /**
+   * Re-encrypt the vault with changed secrets (vault must be unlocked)
+   */
+  async function updateSecrets(changes: Partial<VaultSecrets>): Promise<boolean> {
+    return run(async () => {
+      const { current, currentKey } = requireUnlocked()
+      const next: VaultSecrets = { ...current, ...changes }
+      persist(await vaultService.reseal(next, currentKey, vault.value!))
+      secrets.value = next
+    })
+  }
+
+  async function changePassphrase(passphrase: string): Promise<boolean> {
+    return run(async () => {
+      assertPassphrase(passphrase)
+      const { current } = requireUnlocked()
+      const created = await vaultService.create(current, passphrase)
+      persist(created.vault)
+      open(current, created.key)
+    })
+  }
+
+  /**
+   * Remove the vault and store its secrets in plaintext settings again
+   */
+  async function disable(): Promise<boolean> {
+    return run(async () => {
+      const { current } = requireUnlocked()
+      settings.updateSettings({ ...current })
+      clear()
+    })
+  }
+
+  /**
+   * Forget the vault and its secrets entirely
+   */
+  function clear() {
+    lock()
+    persist(null)
+    showUnlockPrompt.value = false
+    error.value = null
+  }
+
+  /**
+   * Record activity, restarting the auto-lock countdown
+   */
+  function touch() {
+    if (!secrets.value) return
+    if (lockTimer) clearTimeout(lockTimer)
+    lockTimer = null
+    const minutes = settings.vaultAutoLockMinutes
+    if (minutes > 0) {
+      lockTimer = setTimeout(lock, minutes * 60_000)
+    }
+  }
+
+  function requestUnlock() {
+    if (isLocked.value) showUnlockPrompt.value = true
+  }
+
+  function dismissUnlockPrompt() {
+    showUnlockPrompt.value = false
+    error.value = null
+  }
+
+  // ============================================================================
+  // Private helpers
+  // ============================================================================
+
+  async function run(action: () => Promise<void>): Promise<boolean> {
+    isBusy.value = true
+    error.value = null
+    try {
+      await action()
+      return true
+    } catch (e) {
+      error.value = e instanceof VaultError ? e.message : 'Credential vault operation failed'
+      if (!(e instanceof VaultError)) console.error('Vault error:', e)
+      return false
+    } finally {
+      isBusy.value = false
+    }
+  }
+
+  function open(opened: VaultSecrets, derivedKey: CryptoKey) {
+    secrets.value = opened
+    key = derivedKey
+    showUnlockPrompt.value = false
+    touch()
+  }
+
+  function persist(next: EncryptedVault | null) {
+    vault.value = next
+    saveVault(next)
+  }
+
+  /**
+   * Move plaintext secrets left in settings (e.g. saved by an older tab) into the vault
+   */
+  async function absorbPlaintext() {
+    const changes: Partial<VaultSecrets> = {}
+    VAULT_SECRET_NAMES.forEach(name => {
+      if (settings[name]) changes[name] = settings[name]
+    })
+    if (Object.keys(changes).length === 0) return
+
+    const { current, currentKey } = requireUnlocked()
+    const next: VaultSecrets = { ...current, ...changes }
+    persist(await vaultService.reseal(next, currentKey, vault.value!))
+    secrets.value = next
+    settings.updateSettings(emptySecrets())
+  }
+
+  function requireUnlocked(): { current: VaultSecrets; currentKey: CryptoKey } {
+    if (!secrets.value || !key || !vault.value) {
+      throw new VaultError('Unlock the vault first.')
+    }
+    return { current: secrets.value, currentKey: key }
+  }
+
+  function assertPassphrase(passphrase: string) {
+    if (passphrase.length < VAULT_MIN_PASSPHRASE_LENGTH) {
+      throw new VaultError(`Use a passphrase of at least ${VAULT_MIN_PASSPHRASE_LENGTH} characters.`)
+    }
+  }
+
+  return {
+    // State
+    vault,
+    isBusy,
+    error,
+    showUnlockPrompt,
+
+    // Getters
+    isEnabled,
+    isLocked,
+    hasSecret,
+
+    // Actions
+    readSecret,
+    enable,
+    unlock,
+    lock,
+    updateSecrets,
+    changePassphrase,
+    disable,
+    clear,
+    touch,
+    requestUnlock,
+    dismissUnlockPrompt
+  }
+})
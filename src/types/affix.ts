@@ -0,0 +1,135 @@
+/**
+ * @file types/affix.ts
+ * @description Structured item affix type definitions
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+/**
+ * Every stat an item affix can roll, normalized from the API display text
+ */
+export type AffixKind =
+  // Primary attributes
+  | 'strength'
+  | 'dexterity'
+  | 'intelligence'
+  | 'vitality'
+  // Offense
+  | 'critChance'
+  | 'critDamage'
+  | 'attackSpeed'
+  | 'damagePercent'
+  | 'bonusDamage'
+  | 'elementalDamage'
+  | 'skillDamage'
+  | 'eliteDamage'
+  | 'areaDamage'
+  | 'cooldownReduction'
+  | 'resourceCostReduction'
+  // Defense
+  | 'armor'
+  | 'allResist'
+  | 'resist'
+  | 'lifePercent'
+  | 'blockChance'
+  | 'eliteDamageReduction'
+  | 'meleeDamageReduction'
+  | 'rangedDamageReduction'
+  | 'thorns'
+  // Sustain
+  | 'lifePerHit'
+  | 'lifePerSecond'
+  | 'lifePerKill'
+  | 'healthGlobeBonus'
+  // Resources
+  | 'maxResource'
+  | 'resourceRegen'
+  // Utility
+  | 'movementSpeed'
+  | 'pickupRadius'
+  | 'experience'
+  | 'socket'
+  | 'other'
+
+export type DamageElement =
+  | 'physical'
+  | 'fire'
+  | 'cold'
+  | 'lightning'
+  | 'poison'
+  | 'arcane'
+  | 'holy'
+
+/**
+ * Legal roll range for an affix on a given slot
+ */
+export interface AffixRange {
+  min: number
+  max: number
+}
+
+/**
+ * A single parsed affix, kept alongside its original display text
+ */
+export interface ParsedAffix {
+  /** Display text as returned by the API (HTML stripped) */
+  text: string
+  /** Normalized stat kind */
+  kind: AffixKind
+  /** Primary numeric value (e.g. 6 for "Critical Hit Chance Increased by 6.0%") */
+  value?: number
+  /** All numeric values in order (e.g. [1000, 1200] for "+1,000-1,200 Fire Damage") */
+  values: number[]
+  /** Whether the value is a percentage */
+  isPercent: boolean
+  /** Damage or resistance element, if the affix names one */
+  element?: DamageElement
+  /** Skill name for skill damage affixes (e.g. "Bone Spear") */
+  skill?: string
+  /** Legal roll range for this affix on the item's slot, when known */
+  range?: AffixRange
+  /** Whether this affix was rerolled at the Mystic */
+  enchanted: boolean
+}
+
+// Affix kind display names
+export const AFFIX_KIND_NAMES: Record<AffixKind, string> = {
+  strength: 'Strength',
+  dexterity: 'Dexterity',
+  intelligence: 'Intelligence',
+  vitality: 'Vitality',
+  critChance: 'Critical Hit Chance',
+  critDamage: 'Critical Hit Damage',
+  attackSpeed: 'Attack Speed',
+  damagePercent: 'Damage %',
+  bonusDamage: 'Bonus Damage',
+  elementalDamage: 'Elemental Damage',
+  skillDamage: 'Skill Damage',
+  eliteDamage: 'Damage vs Elites',
+  areaDamage: 'Area Damage',
+  cooldownReduction: 'Cooldown Reduction',
+  resourceCostReduction: 'Resource Cost Reduction',
+  armor: 'Armor',
+  allResist: 'All Resistance',
+  resist: 'Resistance',
+  lifePercent: 'Life %',
+  blockChance: 'Block Chance',
+  eliteDamageReduction: 'Elite Damage Reduction',
+  meleeDamageReduction: 'Melee Damage Reduction',
+  rangedDamageReduction: 'Ranged Damage Reduction',
+  thorns: 'Thorns',
+  lifePerHit: 'Life per Hit',
+  lifePerSecond: 'Life per Second',
+  lifePerKill: 'Life per Kill',
+  healthGlobeBonus: 'Health Globe Bonus',
+  maxResource: 'Maximum Resource',
+  resourceRegen: 'Resource Regeneration',
+  movementSpeed: 'Movement Speed',
+  pickupRadius: 'Pickup Radius',
+  experience: 'Experience',
+  socket: 'Socket',
+  other: 'Other'
+}
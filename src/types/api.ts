@@ -10,6 +10,68 @@
 
 export type Region = 'us' | 'eu' | 'kr' | 'tw'
 
+/**
+ * A Battle.net account to query. Defaults to the configured account when omitted.
+ */
+export interface AccountRef {
+  battletag: string
+  region: Region
+}
+
+/**
+ * Per-request options for Battle.net calls through the proxy
+ */
+export interface RequestOptions {
+  /** Skip the proxy's edge cache and fetch fresh data from Blizzard */
+  forceRefresh?: boolean
+  /** Wait out the proxy's rate limit window instead of failing (for long background fetches) */
+  waitForRateLimit?: boolean
+}
+
+/**
+ * A saved account the hero list can switch between
+ */
+export interface AccountProfile extends AccountRef {
+  id: string
+  /** Display name, e.g. a household member or clan mate */
+  label?: string
+}
+
+/**
+ * Optional features the proxy worker advertises on /health
+ */
+export interface ProxyCapabilities {
+  /** The worker holds the Battle.net credentials; clients send neither them nor a token */
+  serverCredentials: boolean
+  /** Requests must be HMAC-signed with the shared signing key */
+  requestSigning: boolean
+  /** /api/batch is available for fetching several endpoints in one round trip */
+  batchRequests: boolean
+}
+
+export interface HealthResponse {
+  status: string
+  timestamp: string
+  capabilities?: ProxyCapabilities
+}
+
+/**
+ * One endpoint's outcome from the proxy's /api/batch
+ */
+export interface BatchProxyResult {
+  endpoint: string
+  status: number
+  /** Battle.net data on success, the proxy error body otherwise */
+  body: unknown
+  /** X-Cache value (HIT / MISS / BYPASS) */
+  cache?: string
+  retryAfter?: string
+}
+
+export interface BatchProxyResponse {
+  results: BatchProxyResult[]
+}
+
 export interface ApiError {
   code: string
   type: string
@@ -269,6 +331,7 @@ export interface GemApiResponse {
 
 export interface FollowerResponse {
   slug: string
+  level?: number
   name?: string
   realName?: string
   portrait?: string
@@ -293,3 +356,54 @@ export interface HeroItemsResponse {
   [slot: string]: ItemApiResponse
 }
 
+
+// Game Data API: season and era indexes
+export interface LinkResponse {
+  href: string
+}
+
+export interface SeasonIndexResponse {
+  season: LinkResponse[]
+  current_season: number
+  service_current_season?: number
+  service_season_state?: string
+  last_update_time?: string
+}
+
+export interface EraIndexResponse {
+  era: LinkResponse[]
+  current_era: number
+  last_update_time?: string
+}
+
+// Game Data API: leaderboards
+export interface LeaderboardDataResponse {
+  id: string
+  string?: string
+  number?: number
+  timestamp?: number
+}
+
+export interface LeaderboardPlayerResponse {
+  key: string
+  accountId: number
+  data: LeaderboardDataResponse[]
+}
+
+export interface LeaderboardRowResponse {
+  player: LeaderboardPlayerResponse[]
+  order: number
+  data: LeaderboardDataResponse[]
+}
+
+export interface LeaderboardResponse {
+  row: LeaderboardRowResponse[]
+  key: string
+  title?: Record<string, string>
+  season?: number
+  era?: number
+  last_update_time?: string
+  generated_by?: string
+  greater_rift?: boolean
+  greater_rift_solo_class?: string
+}
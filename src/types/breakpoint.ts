@@ -0,0 +1,56 @@
+/**
+ * @file types/breakpoint.ts
+ * @description Attack speed (frames per action) breakpoint type definitions
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+/**
+ * Attacks per second needed to act in a given number of frames
+ */
+export interface FrameBreakpoint {
+  frames: number
+  /** Minimum attacks per second for this frame count */
+  aps: number
+  /** Actions (or channel ticks) per second at this frame count */
+  actionsPerSecond: number
+}
+
+/**
+ * Where a skill sits on its frame table
+ */
+export interface SkillFrameAnalysis {
+  skill: string
+  channeled: boolean
+  /** Frames per action at 1.0 attacks per second */
+  baseFrames: number
+  current: FrameBreakpoint
+  next?: FrameBreakpoint
+  /** Additional IAS (fraction) needed for the next breakpoint */
+  iasToNext?: number
+  /** Gogok of Swiftness stacks that reach the next breakpoint (undefined if 15 aren't enough) */
+  gogokStacksToNext?: number
+  /** Attack speed paragon points that reach the next breakpoint (undefined if 50 aren't enough) */
+  paragonPointsToNext?: number
+  /** Attack speed paragon points that can move elsewhere without dropping a frame */
+  spareParagonPoints: number
+  /** Breakpoints around the current one, fastest last */
+  table: FrameBreakpoint[]
+}
+
+export interface AttackSpeedAnalysis {
+  /** Main hand weapon type slug (see SLOT_ITEM_TYPES.mainHand) */
+  weaponType?: string
+  /** Weapon attacks per second, averaged when dual wielding */
+  weaponAps: number
+  /** Attacks per second on the character sheet (no Gogok stacks or buffs) */
+  sheetAps: number
+  /** Increased attack speed from everything but the weapon (0.25 = 25%) */
+  ias: number
+  /** Gogok of Swiftness is socketed */
+  hasGogok: boolean
+  skills: SkillFrameAnalysis[]
+}
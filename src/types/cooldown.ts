@@ -0,0 +1,80 @@
+/**
+ * @file types/cooldown.ts
+ * @description Cooldown reduction and resource cost reduction breakpoint type definitions
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+/** Cooldown reduction or resource cost reduction */
+export type CooldownStat = 'cdr' | 'rcr'
+
+export type CooldownSourceCategory = 'affix' | 'gem' | 'paragon' | 'set' | 'passive'
+
+/**
+ * One multiplicative CDR or RCR source. Totals are 1 - product of (1 - value).
+ */
+export interface CooldownSource {
+  key: string
+  stat: CooldownStat
+  category: CooldownSourceCategory
+  label: string
+  /** Reduction as a fraction (0.08 = 8%) */
+  value: number
+  /** Gear slot the source sits in */
+  slot?: string
+  /** Only reduces these skills; applies to all skills when absent */
+  skills?: string[]
+  /** Condition the value depends on (stacks, assumed allocation...) */
+  condition?: string
+}
+
+/**
+ * Whether an equipped skill reaches permanent uptime with the hero's CDR
+ */
+export interface SkillBreakpoint {
+  skill: string
+  /** Base cooldown in seconds */
+  baseCooldown: number
+  /** Seconds of effect per cast, when the skill has an uptime breakpoint */
+  duration?: number
+  effectiveCooldown: number
+  /** CDR applied to this skill, including skill-specific sources */
+  cdr: number
+  /** CDR needed for permanent uptime */
+  requiredCdr?: number
+  /** Extra multiplicative CDR still needed (0 once met) */
+  additionalCdr: number
+  met: boolean
+  /** Share of time the effect is active (1 = permanent) */
+  uptime?: number
+}
+
+/**
+ * What maxing the CDR roll in one gear slot would bring
+ */
+export interface CdrSlotHeadroom {
+  slot: string
+  /** Current CDR roll in the slot (0 when it doesn't roll CDR) */
+  current: number
+  /** Highest CDR roll the slot can have */
+  max: number
+  /** Total CDR if this slot rolled max */
+  totalIfMaxed: number
+  /** Breakpoints not met now that a max roll here would reach */
+  reaches: string[]
+}
+
+export interface CooldownAnalysis {
+  /** Total multiplicative cooldown reduction for all skills */
+  cdr: number
+  /** Total multiplicative resource cost reduction */
+  rcr: number
+  sources: CooldownSource[]
+  breakpoints: SkillBreakpoint[]
+  slotHeadroom: CdrSlotHeadroom[]
+  /** Set bonuses that scale with CDR/RCR (Captain Crimson's) */
+  notes: string[]
+}
@@ -0,0 +1,68 @@
+/**
+ * @file types/cube.ts
+ * @description Kanai's Cube planner type definitions
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import type { CubePowers } from './hero'
+
+/** Kanai's Cube slot a power is extracted into */
+export type CubeSlot = keyof CubePowers
+
+export const CUBE_SLOTS: CubeSlot[] = ['weapon', 'armor', 'jewelry']
+
+export const CUBE_SLOT_NAMES: Record<CubeSlot, string> = {
+  weapon: 'Weapon',
+  armor: 'Armor',
+  jewelry: 'Jewelry'
+}
+
+/**
+ * Catalog entry for a legendary power that can be extracted into the cube
+ */
+export interface CubePowerInfo {
+  slot: CubeSlot
+  /** Class slugs that can use the power (omitted for every class) */
+  classes?: string[]
+  /** Useful to most builds regardless of skills */
+  general?: boolean
+}
+
+/** Why a power was suggested, strongest first */
+export type CubeSuggestionReason = 'guide' | 'guide-gear' | 'set' | 'skill' | 'general' | 'current'
+
+export interface CubePowerSuggestion {
+  slot: CubeSlot
+  power: string
+  effect?: string
+  reason: CubeSuggestionReason
+  /** Short explanation shown next to the power */
+  detail: string
+  score: number
+  /** Already extracted on the account (undefined when not tracked) */
+  extracted?: boolean
+}
+
+/**
+ * A power in the cube that the hero is also wearing, so one copy does nothing
+ */
+export interface CubeConflict {
+  slot: CubeSlot
+  power: string
+  /** Gear slot the item is equipped in */
+  equippedSlot: string
+}
+
+export interface CubePlan {
+  /** Best power per slot, null when nothing in the catalog fits */
+  best: Record<CubeSlot, CubePowerSuggestion | null>
+  /** Runner-up powers per slot */
+  alternatives: Record<CubeSlot, CubePowerSuggestion[]>
+  conflicts: CubeConflict[]
+  /** Best powers that still need extracting */
+  toExtract: string[]
+}
@@ -0,0 +1,100 @@
+/**
+ * @file types/damage.ts
+ * @description Damage multiplier model type definitions
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import type { DamageElement } from './affix'
+
+export type DamageBucketCategory =
+  | 'mainStat'
+  | 'crit'
+  | 'attackSpeed'
+  | 'elemental'
+  | 'skill'
+  | 'elite'
+  | 'legendary'
+  | 'set'
+  | 'cube'
+  | 'gem'
+
+/**
+ * One multiplicative damage bucket. Stats inside a bucket add together;
+ * buckets multiply with each other.
+ */
+export interface DamageBucket {
+  /** Unique key (category plus source) */
+  key: string
+  category: DamageBucketCategory
+  label: string
+  /** Multiplier the bucket applies (1.5 = +50%) */
+  multiplier: number
+  /** Where the value comes from (item, set bonus, gem rank...) */
+  source?: string
+  /** Only applies against elites, so it's left out of the main multiplier */
+  conditional?: boolean
+}
+
+/**
+ * Deterministic damage model for a hero's current gear
+ */
+export interface DamageModel {
+  heroClass: string
+  /** Element the elemental bucket was built for */
+  element?: DamageElement
+  /** Skill the skill damage bucket was built for */
+  skill?: string
+  /** Weapon DPS, averaged across both weapons when dual wielding */
+  weaponDps: number
+  buckets: DamageBucket[]
+  /** Product of every unconditional bucket */
+  multiplier: number
+  /** Multiplier against elites (includes conditional buckets) */
+  eliteMultiplier: number
+  /** Relative damage index (weapon DPS x multiplier), only meaningful for comparisons */
+  damageIndex: number
+}
+
+/**
+ * Result of replacing one equipped item (or cube power) with another
+ */
+export interface DamageSwapResult {
+  slot: string
+  fromItem?: string
+  toItem: string
+  /** Damage index before and after */
+  before: number
+  after: number
+  /** Change in percent (12.5 = +12.5%) */
+  changePercent: number
+  /** Buckets whose multiplier changed */
+  changedBuckets: Array<{ label: string; before: number; after: number }>
+}
+
+/**
+ * Result of replacing several items, cube powers and gems at once
+ */
+export interface DamageLoadoutResult {
+  before: DamageModel
+  after: DamageModel
+  /** Change in percent (12.5 = +12.5%) */
+  changePercent: number
+  changedBuckets: Array<{ label: string; before: number; after: number }>
+}
+
+/**
+ * Local model result for a set of recommended changes, compared with a claimed multiplier
+ */
+export interface DamageProjectionCheck {
+  /** Damage multiplier the local model predicts for all changes combined */
+  modelMultiplier: number
+  /** Multiplier parsed from the claimed projection, when it could be read */
+  claimedMultiplier: number | null
+  /** Whether the claim is off from the model by more than the tolerance */
+  diverges: boolean
+  swaps: DamageSwapResult[]
+}
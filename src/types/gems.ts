@@ -0,0 +1,63 @@
+/**
+ * @file types/gems.ts
+ * @description Legendary gem upgrade planner type definitions
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+/** Where a gem's target rank came from */
+export type GemTargetSource = 'user' | 'guide' | 'default'
+
+export interface GemTarget {
+  name: string
+  currentRank: number
+  targetRank: number
+  source: GemTargetSource
+}
+
+export interface GemPlanOptions {
+  /** Highest Greater Rift the player clears comfortably, for upgrade odds */
+  pushLevel?: number
+  empowered: boolean
+}
+
+/**
+ * Cost of taking one gem from its current rank to its target
+ */
+export interface GemPlanEntry extends GemTarget {
+  /** Upgrades needed, each guaranteed when run at the right level */
+  upgrades: number
+  /** Greater Rift level that guarantees the last upgrade */
+  guaranteedLevel: number
+  /** Expected attempts at the push level (Infinity if the target can't be reached) */
+  expectedAttempts?: number
+}
+
+/**
+ * A run of consecutive upgrades on one gem within the overall order
+ */
+export interface GemUpgradeStep {
+  gem: string
+  fromRank: number
+  toRank: number
+  /** Greater Rift level that guarantees every upgrade in the step */
+  guaranteedLevel: number
+  /** Why the gem comes next */
+  reason: 'secondary' | 'lowest'
+}
+
+export interface GemPlan {
+  gems: GemPlanEntry[]
+  steps: GemUpgradeStep[]
+  totalUpgrades: number
+  /** Clears needed with guaranteed upgrades */
+  empoweredRuns: number
+  unempoweredRuns: number
+  /** Clears needed at the push level, on average */
+  expectedRuns?: number
+  pushLevel?: number
+  empowered: boolean
+}
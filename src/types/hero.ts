@@ -8,8 +8,13 @@
  * @copyright (c) 2025 drsii. All rights reserved.
  */
 
+import type { ParsedAffix } from './affix'
+import type { AccountRef } from './api'
+
 export type ItemQuality = 'legendary' | 'set' | 'rare' | 'magic' | 'common'
 
+export type AncientRank = 'normal' | 'ancient' | 'primal'
+
 export interface Skill {
   name: string
   slug: string
@@ -36,18 +41,84 @@ export interface Item {
   name: string
   itemType: string
   quality: ItemQuality
+  ancientRank: AncientRank
   setName?: string
   armor?: number
   dps?: number
   attacksPerSecond?: number
+  /** Weapon takes both hands (absent on snapshots saved before it was tracked) */
+  twoHanded?: boolean
   primaryStats: string[]
   secondaryStats: string[]
+  primaryAffixes: ParsedAffix[]
+  secondaryAffixes: ParsedAffix[]
   legendaryPower?: string
   gems: Gem[]
   transmog?: string
   icon?: string
 }
 
+/**
+ * Full character sheet from the hero detail endpoint.
+ * Percentages are fractions as returned by the API (0.5 = 50%).
+ */
+export interface HeroStats {
+  // Aggregates
+  life: number
+  damage: number
+  toughness: number
+  healing: number
+
+  // Primary attributes
+  strength: number
+  dexterity: number
+  intelligence: number
+  vitality: number
+
+  // Offense
+  attackSpeed: number
+  critChance: number
+  critDamage: number
+  damageIncrease: number
+
+  // Defense
+  armor: number
+  physicalResist: number
+  fireResist: number
+  coldResist: number
+  lightningResist: number
+  poisonResist: number
+  arcaneResist: number
+  damageReduction: number
+  blockChance: number
+  blockAmountMin: number
+  blockAmountMax: number
+  thorns: number
+
+  // Life
+  lifeSteal: number
+  lifePerKill: number
+  lifeOnHit: number
+
+  // Adventure
+  goldFind: number
+  magicFind: number
+
+  // Resources
+  primaryResource: number
+  secondaryResource: number
+}
+
+export type FollowerType = 'templar' | 'scoundrel' | 'enchantress'
+
+export interface Follower {
+  type: FollowerType
+  name: string
+  level?: number
+  items: Record<string, Item>
+  skills: Skill[]
+}
+
 export interface Hero {
   heroId: number
   name: string
@@ -65,11 +136,16 @@ export interface Hero {
   damage?: number
   toughness?: number
   recovery?: number
+  stats?: HeroStats
   activeSkills: Skill[]
   passiveSkills: Skill[]
   items: Record<string, Item>
   cubePowers?: CubePowers
   legendaryGems: Gem[]
+  followers?: Follower[]
+
+  // Account the hero was fetched from, when it was given explicitly
+  account?: AccountRef
 }
 
 export interface HeroSummary {
@@ -85,6 +161,35 @@ export interface HeroSummary {
   gender: number
 }
 
+/**
+ * A hero to fetch, on the configured account unless one is given
+ */
+export interface HeroRef {
+  heroId: number
+  account?: AccountRef
+}
+
+/**
+ * Outcome of a batched full-hero fetch
+ */
+export interface FullHeroesResult {
+  heroes: Hero[]
+  /** Heroes that couldn't be loaded, with the reason */
+  failed: Array<HeroRef & { error: string }>
+}
+
+/**
+ * At-a-glance gear summary for a hero card, from a batched full-hero fetch
+ */
+export interface HeroOverview {
+  /** Set with the most equipped pieces */
+  setName?: string
+  setPieces: number
+  cubePowers?: CubePowers
+  /** Overall gear score (0-100) */
+  gearScore: number
+}
+
 // Class name mappings
 export const CLASS_NAMES: Record<string, string> = {
   barbarian: 'Barbarian',
@@ -96,6 +201,28 @@ export const CLASS_NAMES: Record<string, string> = {
   wizard: 'Wizard'
 }
 
+// Resource names by class slug (secondary resource only for Demon Hunter)
+export const CLASS_RESOURCES: Record<string, { primary: string; secondary?: string }> = {
+  barbarian: { primary: 'Fury' },
+  crusader: { primary: 'Wrath' },
+  'demon-hunter': { primary: 'Hatred', secondary: 'Discipline' },
+  monk: { primary: 'Spirit' },
+  necromancer: { primary: 'Essence' },
+  'witch-doctor': { primary: 'Mana' },
+  wizard: { primary: 'Arcane Power' }
+}
+
+// Main stat by class slug - the primary attribute that scales damage
+export const CLASS_MAIN_STAT: Record<string, 'strength' | 'dexterity' | 'intelligence'> = {
+  barbarian: 'strength',
+  crusader: 'strength',
+  'demon-hunter': 'dexterity',
+  monk: 'dexterity',
+  necromancer: 'intelligence',
+  'witch-doctor': 'intelligence',
+  wizard: 'intelligence'
+}
+
 // Slot display names
 export const SLOT_NAMES: Record<string, string> = {
   head: 'Head',
@@ -110,9 +237,27 @@ export const SLOT_NAMES: Record<string, string> = {
   leftFinger: 'Left Ring',
   rightFinger: 'Right Ring',
   mainHand: 'Main Hand',
-  offHand: 'Off Hand'
+  offHand: 'Off Hand',
+  special: 'Token'
+}
+
+// Follower display names
+export const FOLLOWER_NAMES: Record<FollowerType, string> = {
+  templar: 'Templar',
+  scoundrel: 'Scoundrel',
+  enchantress: 'Enchantress'
 }
 
+// Follower gear slots in display order
+export const FOLLOWER_SLOTS = [
+  'special',
+  'mainHand',
+  'offHand',
+  'neck',
+  'leftFinger',
+  'rightFinger'
+] as const
+
 // All gear slots in display order
 export const GEAR_SLOTS = [
   'head',
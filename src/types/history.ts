@@ -0,0 +1,63 @@
+/**
+ * @file types/history.ts
+ * @description Hero snapshot history and diff type definitions
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import type { Hero, Item } from './hero'
+
+/**
+ * A fetched hero persisted at a point in time
+ */
+export interface HeroSnapshot {
+  /** Auto-incremented IndexedDB key (absent before the snapshot is stored) */
+  id?: number
+  heroId: number
+  capturedAt: number
+  hero: Hero
+}
+
+export type ItemChangeKind = 'equipped' | 'unequipped' | 'replaced'
+
+export interface ItemChange {
+  slot: string
+  kind: ItemChangeKind
+  before?: Item
+  after?: Item
+}
+
+export type GemChangeKind = 'added' | 'removed' | 'rankUp'
+
+export interface GemChange {
+  name: string
+  kind: GemChangeKind
+  fromRank?: number
+  toRank?: number
+}
+
+export interface StatDelta {
+  key: string
+  label: string
+  before: number
+  after: number
+  delta: number
+  /** Value is a fraction to be displayed as a percentage */
+  isPercent: boolean
+}
+
+/**
+ * Everything that changed between two snapshots of the same hero
+ */
+export interface HeroDiff {
+  from: HeroSnapshot
+  to: HeroSnapshot
+  levelGained: number
+  paragonGained: number
+  itemChanges: ItemChange[]
+  gemChanges: GemChange[]
+  statDeltas: StatDelta[]
+}
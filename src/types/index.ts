@@ -2,3 +2,15 @@
 export * from './hero'
 export * from './item'
 export * from './api'
+export * from './affix'
+export * from './history'
+export * from './leaderboard'
+export * from './damage'
+export * from './toughness'
+export * from './cooldown'
+export * from './breakpoint'
+export * from './gems'
+export * from './paragon'
+export * from './cube'
+export * from './sandbox'
+export * from './vault'
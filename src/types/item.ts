@@ -56,3 +56,57 @@ export const SLOT_ITEM_TYPES: Record<string, string[]> = {
     'hand-crossbow'
   ]
 }
+
+// Weapon type display names (as they appear in item type names) by weapon type slug
+export const WEAPON_TYPE_NAMES: Record<string, string> = {
+  'sword-1h': 'Sword',
+  'axe-1h': 'Axe',
+  'mace-1h': 'Mace',
+  dagger: 'Dagger',
+  spear: 'Spear',
+  'fist-weapon': 'Fist Weapon',
+  'mighty-weapon-1h': 'Mighty Weapon',
+  'flail-1h': 'Flail',
+  'ceremonial-knife': 'Ceremonial Knife',
+  'scythe-1h': 'Scythe',
+  wand: 'Wand',
+  'sword-2h': 'Two-Handed Sword',
+  'axe-2h': 'Two-Handed Axe',
+  'mace-2h': 'Two-Handed Mace',
+  polearm: 'Polearm',
+  staff: 'Staff',
+  'mighty-weapon-2h': 'Two-Handed Mighty Weapon',
+  'flail-2h': 'Two-Handed Flail',
+  daibo: 'Daibo',
+  'scythe-2h': 'Two-Handed Scythe',
+  bow: 'Bow',
+  crossbow: 'Crossbow',
+  'hand-crossbow': 'Hand Crossbow'
+}
+
+// Base attacks per second by weapon type slug, before attack speed rolls
+export const WEAPON_BASE_SPEED: Record<string, number> = {
+  'sword-1h': 1.4,
+  'axe-1h': 1.3,
+  'mace-1h': 1.2,
+  dagger: 1.5,
+  spear: 1.2,
+  'fist-weapon': 1.4,
+  'mighty-weapon-1h': 1.3,
+  'flail-1h': 1.4,
+  'ceremonial-knife': 1.4,
+  'scythe-1h': 1.4,
+  wand: 1.4,
+  'sword-2h': 1.15,
+  'axe-2h': 1.1,
+  'mace-2h': 1.0,
+  polearm: 1.0,
+  staff: 1.0,
+  'mighty-weapon-2h': 1.1,
+  'flail-2h': 1.15,
+  daibo: 1.1,
+  'scythe-2h': 1.15,
+  bow: 1.4,
+  crossbow: 1.1,
+  'hand-crossbow': 1.6
+}
@@ -0,0 +1,105 @@
+/**
+ * @file types/leaderboard.ts
+ * @description Greater Rift leaderboard type definitions
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import type { AccountRef } from './api'
+
+/** Leaderboards are published per season or per era (non-seasonal) */
+export type LeaderboardScope = 'season' | 'era'
+
+export interface LeaderboardIndex {
+  scope: LeaderboardScope
+  current: number
+  ids: number[]
+}
+
+/**
+ * A single ranked solo Greater Rift clear
+ */
+export interface LeaderboardEntry {
+  rank: number
+  riftLevel: number
+  /** Clear time in milliseconds */
+  riftTime: number
+  completedAt?: number
+  heroId?: number
+  heroClass: string
+  heroLevel?: number
+  paragonLevel?: number
+  clanName?: string
+  /** Account the hero belongs to, for opening it in the dashboard */
+  account: AccountRef
+}
+
+export interface Leaderboard {
+  scope: LeaderboardScope
+  scopeId: number
+  leaderboardId: string
+  title: string
+  updatedAt?: string
+  entries: LeaderboardEntry[]
+}
+
+// Solo Greater Rift leaderboard ids by class slug
+export const LEADERBOARD_CLASS_IDS: Record<string, string> = {
+  barbarian: 'barbarian',
+  crusader: 'crusader',
+  'demon-hunter': 'dh',
+  monk: 'monk',
+  necromancer: 'necromancer',
+  'witch-doctor': 'wd',
+  wizard: 'wizard'
+}
+
+/** Leaderboard meta sample sizes (top N clears) */
+export const LEADERBOARD_SAMPLE_OPTIONS = [25, 50, 100]
+
+export const DEFAULT_LEADERBOARD_SAMPLE_SIZE = 100
+
+/**
+ * How many of the sampled heroes use a given choice
+ */
+export interface UsageShare {
+  name: string
+  count: number
+  /** Fraction of the sample (0.92 = 92%) */
+  share: number
+}
+
+/**
+ * Gear, skill and cube usage among a class's top leaderboard clears
+ */
+export interface LeaderboardMetaUsage {
+  heroClass: string
+  scope: LeaderboardScope
+  scopeId: number
+  leaderboardId: string
+  hardcore: boolean
+  /** Number of top clears requested */
+  topN: number
+  /** Number of heroes actually fetched and counted */
+  sampleSize: number
+  /** Heroes on the leaderboard that couldn't be fetched (private, deleted, rate limited) */
+  failedCount: number
+  generatedAt: number
+  /** Most-equipped set per hero */
+  sets: UsageShare[]
+  /** Item usage by gear slot */
+  slots: Record<string, UsageShare[]>
+  cubePowers: {
+    weapon: UsageShare[]
+    armor: UsageShare[]
+    jewelry: UsageShare[]
+  }
+  legendaryGems: UsageShare[]
+  activeSkills: UsageShare[]
+  /** Rune usage keyed by active skill name */
+  runes: Record<string, UsageShare[]>
+  passiveSkills: UsageShare[]
+}
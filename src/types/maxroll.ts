@@ -8,6 +8,11 @@
  * @copyright (c) 2025 drsii. All rights reserved.
  */
 
+import type { LeaderboardMetaUsage } from './leaderboard'
+
+/** Where a meta build reference came from */
+export type MetaBuildSource = 'maxroll' | 'leaderboard'
+
 /**
  * Tier list entry from Maxroll solo tier list
  */
@@ -118,6 +123,21 @@ export interface MaxrollBuildGuide {
   cons?: string[]
 }
 
+/**
+ * Build a hero's gear is scored against - a Maxroll guide or any build with the same gear shape
+ */
+export interface TargetBuild {
+  buildName: string
+  guideUrl?: string
+  gear: MaxrollGearSlot[]
+  statPriorities?: MaxrollStatPriorities
+  /** Gems and target ranks from the guide */
+  legendaryGems?: MaxrollGem[]
+  paragonPriorities?: MaxrollParagonPriorities
+  /** Kanai's Cube powers from the guide */
+  kanaisCube?: MaxrollCubePowers
+}
+
 /**
  * Simplified meta build reference for Claude context
  */
@@ -136,6 +156,10 @@ export interface MetaBuildReference {
   skills?: MaxrollSkillSet
   /** Cube powers */
   cubePowers?: MaxrollCubePowers
+  /** Data source (defaults to Maxroll when absent) */
+  source?: MetaBuildSource
+  /** Usage statistics when derived from leaderboard heroes */
+  usage?: LeaderboardMetaUsage
 }
 
 /**
@@ -0,0 +1,90 @@
+/**
+ * @file types/paragon.ts
+ * @description Paragon point allocation type definitions
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+export type ParagonCategory = 'core' | 'offense' | 'defense' | 'utility'
+
+export type ParagonStat =
+  | 'mainStat'
+  | 'vitality'
+  | 'movementSpeed'
+  | 'maxResource'
+  | 'attackSpeed'
+  | 'cooldownReduction'
+  | 'critChance'
+  | 'critDamage'
+  | 'lifePercent'
+  | 'armor'
+  | 'allResist'
+  | 'lifeRegen'
+  | 'areaDamage'
+  | 'resourceCostReduction'
+  | 'lifeOnHit'
+  | 'goldFind'
+
+export interface ParagonStatInfo {
+  category: ParagonCategory
+  label: string
+  /** Bonus per point; absent when it depends on class or level */
+  perPoint?: number
+  /** Whether the bonus is a percentage */
+  isPercent: boolean
+  /** Point cap; uncapped stats absorb whatever is left */
+  maxPoints?: number
+}
+
+export interface ParagonStatAllocation {
+  stat: ParagonStat
+  category: ParagonCategory
+  label: string
+  points: number
+  maxPoints?: number
+  /** Total bonus from the points (percent or flat), when known */
+  value?: number
+  isPercent: boolean
+}
+
+export interface ParagonAllocation {
+  paragonLevel: number
+  pointsByCategory: Record<ParagonCategory, number>
+  stats: ParagonStatAllocation[]
+  /** Stat order each category was filled in */
+  priorities: Record<ParagonCategory, ParagonStat[]>
+  /** Where the priorities came from */
+  source: 'guide' | 'default'
+}
+
+export interface ParagonStatChange {
+  stat: ParagonStat
+  label: string
+  pointsBefore: number
+  pointsAfter: number
+  valueChange?: number
+  isPercent: boolean
+}
+
+/**
+ * How an allocation changes with more paragon levels
+ */
+export interface ParagonProjection {
+  levels: number
+  from: ParagonAllocation
+  to: ParagonAllocation
+  changes: ParagonStatChange[]
+  summary: string
+}
+
+export const PARAGON_CATEGORIES: ParagonCategory[] = ['core', 'offense', 'defense', 'utility']
+
+export const PARAGON_CATEGORY_NAMES: Record<ParagonCategory, string> = {
+  core: 'Core',
+  offense: 'Offense',
+  defense: 'Defense',
+  utility: 'Utility'
+}
@@ -0,0 +1,71 @@
+/**
+ * @file types/sandbox.ts
+ * @description Gear-swap "what if" sandbox type definitions
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import type { Item } from './hero'
+import type { DamageLoadoutResult } from './damage'
+import type { ToughnessLoadoutResult } from './toughness'
+
+/** Drag-and-drop data type for sandbox item options (JSON payload) */
+export const SANDBOX_DRAG_TYPE = 'application/x-dyerb-item'
+
+/** Where an item offered to the sandbox came from */
+export type SandboxItemSource = 'catalog' | 'stash' | 'recommendation'
+
+/**
+ * An item that can be dropped into a sandbox slot.
+ * Name-only options keep the replaced item's affixes and swap the legendary power and set.
+ */
+export interface SandboxItemOption {
+  name: string
+  /** Gear slots the item fits (empty when unknown) */
+  slots: string[]
+  source: SandboxItemSource
+  /** Full item with affixes, for stashed items */
+  item?: Item
+  /** Why a recommendation suggests it */
+  note?: string
+}
+
+export type SandboxChangeKind = 'item' | 'cube' | 'gem' | 'skill' | 'passive'
+
+/**
+ * One difference between the sandbox and the real hero
+ */
+export interface SandboxChange {
+  kind: SandboxChangeKind
+  /** Gear slot, cube slot, gem name or skill index */
+  key: string
+  label: string
+  from?: string
+  to?: string
+}
+
+export interface SandboxSetDelta {
+  setName: string
+  /** Effective pieces (with Ring of Royal Grandeur) */
+  piecesBefore: number
+  piecesAfter: number
+  bonusesBefore: number
+  bonusesAfter: number
+}
+
+/**
+ * Sandbox results against the real hero
+ */
+export interface SandboxComparison {
+  damage: DamageLoadoutResult
+  toughness: ToughnessLoadoutResult
+  scoreBefore: number
+  scoreAfter: number
+  sets: SandboxSetDelta[]
+  /** Suggestion messages the changes add or clear */
+  addedSuggestions: string[]
+  clearedSuggestions: string[]
+}
@@ -0,0 +1,96 @@
+/**
+ * @file types/toughness.ts
+ * @description Effective health (EHP) model type definitions
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+import type { DamageElement } from './affix'
+
+/** Kind of incoming damage a reduction is limited to */
+export type DamageReductionScope = 'melee' | 'ranged' | 'elite' | 'nonPhysical'
+
+export type DamageReductionCategory =
+  | 'class'
+  | 'armor'
+  | 'resist'
+  | 'affix'
+  | 'legendary'
+  | 'set'
+  | 'cube'
+  | 'gem'
+  | 'passive'
+
+/**
+ * One multiplicative damage reduction. Damage taken is the product of (1 - reduction).
+ */
+export interface DamageReductionSource {
+  key: string
+  category: DamageReductionCategory
+  label: string
+  /** Fraction of damage removed (0.5 = 50%) */
+  reduction: number
+  /** Limited to some incoming damage; applies to everything when absent */
+  appliesTo?: DamageReductionScope
+  detail?: string
+}
+
+/**
+ * Effective health for a hero's current gear
+ */
+export interface ToughnessModel {
+  life: number
+  armor: number
+  /** Resistance per element, holy shares the arcane value */
+  resists: Record<DamageElement, number>
+  /** Armor, resist and every other reduction, most impactful first */
+  sources: DamageReductionSource[]
+  /** EHP per incoming element with unconditional reductions */
+  ehpByElement: Record<DamageElement, number>
+  /** EHP against the element the hero resists least */
+  ehp: number
+  weakestElement: DamageElement
+  /** EHP against melee, ranged and elite hits of the weakest element */
+  meleeEhp: number
+  rangedEhp: number
+  eliteEhp: number
+  /** Total damage reduction against the weakest element (0.9 = 90%) */
+  totalReduction: number
+}
+
+/**
+ * EHP change from replacing one equipped item (or cube power)
+ */
+export interface ToughnessSwapResult {
+  slot: string
+  fromItem?: string
+  toItem: string
+  /** EHP before and after, against the weakest element */
+  before: number
+  after: number
+  /** Change in percent (12.5 = +12.5%) */
+  changePercent: number
+}
+
+/**
+ * EHP result of replacing several items and cube powers at once
+ */
+export interface ToughnessLoadoutResult {
+  before: ToughnessModel
+  after: ToughnessModel
+  /** Change in percent (12.5 = +12.5%) */
+  changePercent: number
+}
+
+/**
+ * Local EHP result for a set of recommended changes, compared with a claimed multiplier
+ */
+export interface ToughnessProjectionCheck {
+  modelMultiplier: number
+  claimedMultiplier: number | null
+  diverges: boolean
+  swaps: ToughnessSwapResult[]
+}
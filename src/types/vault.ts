@@ -0,0 +1,41 @@
+/**
+ * @file types/vault.ts
+ * @description Passphrase-protected credential vault type definitions
+ *
+ * @author drsii
+ * @ai-assisted Claude Opus 4.5 (claude-opus-4-5-20251101)
+ * @license MIT
+ * @copyright (c) 2025 drsii. All rights reserved.
+ */
+
+/** Settings fields the vault encrypts at rest */
+export type VaultSecretName = 'clientSecret' | 'claudeApiKey' | 'proxySigningKey'
+
+export type VaultSecrets = Record<VaultSecretName, string>
+
+export const VAULT_SECRET_NAMES: VaultSecretName[] = ['clientSecret', 'claudeApiKey', 'proxySigningKey']
+
+/**
+ * Encrypted vault as persisted to localStorage (binary fields base64)
+ */
+export interface EncryptedVault {
+  version: 1
+  /** PBKDF2 salt */
+  salt: string
+  iterations: number
+  /** AES-GCM nonce, fresh for every write */
+  iv: string
+  ciphertext: string
+  /** Which secrets are set, so configuration checks work while locked */
+  secretNames: VaultSecretName[]
+}
+
+/** PBKDF2-SHA256 iterations for new vaults */
+export const VAULT_PBKDF2_ITERATIONS = 310_000
+
+/** Auto-lock choices in minutes (0 = never) */
+export const VAULT_AUTO_LOCK_OPTIONS = [5, 15, 30, 60, 0]
+
+export const DEFAULT_VAULT_AUTO_LOCK_MINUTES = 15
+
+export const VAULT_MIN_PASSPHRASE_LENGTH = 8
@@ -8,27 +8,125 @@
  * @copyright (c) 2025 drsii. All rights reserved.
  */
 
+interface Env {
+  // Worker secrets (wrangler secret put ...). When both are set the worker holds
+  // the Battle.net credentials and clients never see them or the access token.
+  BNET_CLIENT_ID?: string
+  BNET_CLIENT_SECRET?: string
+  // Comma-separated origins allowed to call the proxy (unset = any origin)
+  ALLOWED_ORIGINS?: string
+  // Shared secret; when set, /api/* requests must carry an HMAC-SHA256 signature
+  REQUEST_SIGNING_SECRET?: string
+  // Requests allowed per client IP and per token in each window (defaults 60 per 60s)
+  RATE_LIMIT_REQUESTS?: string
+  RATE_LIMIT_WINDOW_SECONDS?: string
+  // Edge cache TTLs in seconds for Battle.net responses (0 disables caching)
+  CACHE_TTL_PROFILE?: string
+  CACHE_TTL_HERO?: string
+  CACHE_TTL_DATA?: string
+}
+
 interface TokenRequest {
   clientId: string
   clientSecret: string
 }
 
 interface ApiProxyRequest {
-  token: string
+  // Omitted when the worker holds the credentials
+  token?: string
+  region: string
+  endpoint: string
+  // Skip the edge cache and store a fresh copy
+  forceRefresh?: boolean
+}
+
+interface BatchProxyRequest {
+  token?: string
   region: string
+  endpoints: string[]
+  forceRefresh?: boolean
+}
+
+// One endpoint's outcome within a batch, mirroring what /api/proxy would return
+interface BatchResult {
   endpoint: string
+  status: number
+  // Battle.net data on success, the proxy error body otherwise
+  body: unknown
+  // X-Cache value
+  cache?: string
+  retryAfter?: string
+}
+
+interface OAuthTokenResponse {
+  access_token: string
+  token_type: string
+  expires_in: number
+}
+
+// Battle.net /oauth/check_token response (fields the proxy uses)
+interface CheckTokenResponse {
+  exp?: number
+}
+
+interface CachedToken {
+  token: string
+  expiresAt: number
 }
 
 interface MaxrollProxyRequest {
   endpoint: string
 }
 
+// Battle.net responses cached at the edge, by how fast they go stale
+type CacheKind = 'profile' | 'hero' | 'data'
+
+// X-Cache values: served from cache, fetched and stored, or cache not consulted
+type CacheStatus = 'HIT' | 'MISS' | 'BYPASS'
+
+interface RateLimitWindow {
+  count: number
+  resetAt: number
+}
+
+// Request signature headers (timestamp in ms, signature as hex)
+const TIMESTAMP_HEADER = 'X-Dyerb-Timestamp'
+const SIGNATURE_HEADER = 'X-Dyerb-Signature'
+
+// Signed requests older or newer than this are rejected (ms)
+const SIGNATURE_MAX_AGE = 5 * 60 * 1000
+
+const DEFAULT_RATE_LIMIT_REQUESTS = 60
+const DEFAULT_RATE_LIMIT_WINDOW_SECONDS = 60
+
+// Rate limit windows are pruned once this many clients are tracked
+const RATE_LIMIT_MAX_ENTRIES = 10_000
+
+// Access-Control-Allow-Origin is set per request from the allowlist
 const CORS_HEADERS = {
-  'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  'Access-Control-Allow-Headers': `Content-Type, Authorization, ${TIMESTAMP_HEADER}, ${SIGNATURE_HEADER}`,
+  'Access-Control-Expose-Headers': 'Retry-After, X-Cache, Age'
 }
 
+const DEFAULT_CACHE_TTLS: Record<CacheKind, number> = {
+  profile: 300, // hero list changes when heroes are created or levelled
+  hero: 120, // gear changes while playing
+  data: 3600 // seasons, eras and leaderboards
+}
+
+// Synthetic origin for edge cache keys (POST requests can't be cached directly)
+const CACHE_KEY_ORIGIN = 'https://battlenet-cache.dyerb.internal'
+
+// When a cached copy was stored (ms), for Age and the remaining max-age
+const CACHED_AT_HEADER = 'X-Cached-At'
+
+// Endpoints per /api/batch request (a full account is 12 heroes x details + items)
+const MAX_BATCH_ENDPOINTS = 24
+
+// Parallel upstream fetches per batch (Workers allow 6 open connections per request)
+const BATCH_CONCURRENCY = 6
+
 // API base URLs by region
 const API_URLS: Record<string, string> = {
   us: 'https://us.api.blizzard.com',
@@ -37,58 +135,279 @@ const API_URLS: Record<string, string> = {
   tw: 'https://tw.api.blizzard.com'
 }
 
+// Refresh server-held tokens this long before Battle.net expires them (ms)
+const TOKEN_REFRESH_BUFFER = 5 * 60 * 1000
+
+// Server-held access token, shared by requests served by this isolate
+let cachedToken: CachedToken | null = null
+let pendingToken: Promise<string> | null = null
+
+// Fixed-window request counts per client key. Kept per isolate, so the limit is
+// approximate across Cloudflare locations but stops a single client hammering one.
+const rateLimits = new Map<string, RateLimitWindow>()
+
+// Client tokens Battle.net has confirmed, with their expiry (ms). The edge cache is
+// shared, so a client token is checked before cached data is served to it.
+const validatedTokens = new Map<string, number>()
+
+// Battle.net API namespaces the proxy will forward
+const ALLOWED_API_PREFIXES = [
+  '/d3/profile/', // Community profile API
+  '/data/d3/' // Game Data API (seasons, eras, leaderboards)
+]
+
 export default {
-  async fetch(request: Request): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const allowedOrigin = resolveAllowedOrigin(request.headers.get('Origin'), env)
+    if (!allowedOrigin) {
+      return jsonResponse({ error: 'Origin not allowed' }, 403)
+    }
+
     // Handle CORS preflight
     if (request.method === 'OPTIONS') {
-      return new Response(null, { headers: CORS_HEADERS })
+      return withCors(new Response(null), allowedOrigin)
+    }
+
+    return withCors(await route(request, env, ctx), allowedOrigin)
+  }
+}
+
+async function route(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+  const url = new URL(request.url)
+
+  try {
+    // Health check
+    if (url.pathname === '/health') {
+      return jsonResponse({
+        status: 'ok',
+        timestamp: new Date().toISOString(),
+        capabilities: {
+          serverCredentials: hasServerCredentials(env),
+          requestSigning: !!env.REQUEST_SIGNING_SECRET,
+          batchRequests: true
+        }
+      })
+    }
+
+    if (!url.pathname.startsWith('/api/') || request.method !== 'POST') {
+      return jsonResponse({ error: 'Not found' }, 404)
     }
 
-    const url = new URL(request.url)
+    const rawBody = await request.text()
 
+    const signatureError = await verifySignature(request, url.pathname, rawBody, env)
+    if (signatureError) {
+      return jsonResponse({ error: signatureError }, 401)
+    }
+
+    let body: unknown
     try {
-      // OAuth token endpoint
-      if (url.pathname === '/api/token' && request.method === 'POST') {
-        return await handleTokenRequest(request)
-      }
+      body = JSON.parse(rawBody)
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400)
+    }
+    if (!isRequestBody(body)) {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400)
+    }
+
+    const rateLimitKeys = [`ip:${request.headers.get('CF-Connecting-IP') ?? 'unknown'}`]
+    if (typeof body.token === 'string' && body.token) {
+      rateLimitKeys.push(`token:${body.token}`)
+    }
+    // A batch costs one request per endpoint, so it can't be used to dodge the limit
+    const cost = url.pathname === '/api/batch' && Array.isArray(body.endpoints)
+      ? Math.max(1, body.endpoints.length)
+      : 1
+    const retryAfter = checkRateLimit(rateLimitKeys, env, cost)
+    if (retryAfter !== null) {
+      return jsonResponse(
+        { error: 'Too many requests', retryAfter },
+        429,
+        { 'Retry-After': String(retryAfter) }
+      )
+    }
 
-      // API proxy endpoint
-      if (url.pathname === '/api/proxy' && request.method === 'POST') {
-        return await handleApiProxy(request)
+    // OAuth token endpoint
+    if (url.pathname === '/api/token') {
+      if (!isTokenRequest(body)) {
+        return jsonResponse({ error: 'Missing clientId or clientSecret' }, 400)
       }
+      return await handleTokenRequest(body, env)
+    }
 
-      // Maxroll proxy endpoint
-      if (url.pathname === '/api/maxroll' && request.method === 'POST') {
-        return await handleMaxrollProxy(request)
+    // API proxy endpoint
+    if (url.pathname === '/api/proxy') {
+      if (!isApiProxyRequest(body)) {
+        return jsonResponse({ error: 'Missing token, region, or endpoint' }, 400)
       }
+      return await handleApiProxy(body, env, ctx)
+    }
 
-      // Health check
-      if (url.pathname === '/health') {
-        return jsonResponse({ status: 'ok', timestamp: new Date().toISOString() })
+    // Batched API proxy endpoint
+    if (url.pathname === '/api/batch') {
+      if (!isBatchProxyRequest(body)) {
+        return jsonResponse({ error: 'Missing region or endpoints' }, 400)
       }
+      return await handleBatchProxy(body, env, ctx)
+    }
 
-      return jsonResponse({ error: 'Not found' }, 404)
-    } catch (error) {
-      console.error('Worker error:', error)
-      return jsonResponse(
-        { error: error instanceof Error ? error.message : 'Internal server error' },
-        500
-      )
+    // Maxroll proxy endpoint
+    if (url.pathname === '/api/maxroll') {
+      if (!isMaxrollProxyRequest(body)) {
+        return jsonResponse({ error: 'Missing endpoint' }, 400)
+      }
+      return await handleMaxrollProxy(body)
     }
+
+    return jsonResponse({ error: 'Not found' }, 404)
+  } catch (error) {
+    console.error('Worker error:', error)
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      500
+    )
   }
 }
 
-async function handleTokenRequest(request: Request): Promise<Response> {
-  const body: TokenRequest = await request.json()
+// Request body guards: each checks the field types its handler relies on
 
-  if (!body.clientId || !body.clientSecret) {
-    return jsonResponse({ error: 'Missing clientId or clientSecret' }, 400)
+type RequestBody = Record<string, unknown>
+
+function isRequestBody(value: unknown): value is RequestBody {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isOptional(value: unknown, type: 'string' | 'boolean'): boolean {
+  return value === undefined || typeof value === type
+}
+
+function isTokenRequest(body: RequestBody): body is RequestBody & TokenRequest {
+  return typeof body.clientId === 'string' && typeof body.clientSecret === 'string'
+}
+
+function isApiProxyRequest(body: RequestBody): body is RequestBody & ApiProxyRequest {
+  return isOptional(body.token, 'string') &&
+    typeof body.region === 'string' &&
+    typeof body.endpoint === 'string' &&
+    isOptional(body.forceRefresh, 'boolean')
+}
+
+function isBatchProxyRequest(body: RequestBody): body is RequestBody & BatchProxyRequest {
+  return isOptional(body.token, 'string') &&
+    typeof body.region === 'string' &&
+    Array.isArray(body.endpoints) &&
+    body.endpoints.every(e => typeof e === 'string') &&
+    isOptional(body.forceRefresh, 'boolean')
+}
+
+function isMaxrollProxyRequest(body: RequestBody): body is RequestBody & MaxrollProxyRequest {
+  return typeof body.endpoint === 'string'
+}
+
+/**
+ * The Access-Control-Allow-Origin value for a request, or null when its origin is not allowed
+ */
+function resolveAllowedOrigin(origin: string | null, env: Env): string | null {
+  const allowlist = (env.ALLOWED_ORIGINS ?? '')
+    .split(',')
+    .map(o => o.trim().replace(/\/+$/, ''))
+    .filter(Boolean)
+
+  if (allowlist.length === 0) return '*'
+  return origin && allowlist.includes(origin) ? origin : null
+}
+
+function withCors(response: Response, allowedOrigin: string): Response {
+  const corsResponse = new Response(response.body, response)
+  Object.entries(CORS_HEADERS).forEach(([name, value]) => corsResponse.headers.set(name, value))
+  corsResponse.headers.set('Access-Control-Allow-Origin', allowedOrigin)
+  if (allowedOrigin !== '*') {
+    corsResponse.headers.append('Vary', 'Origin')
+  }
+  return corsResponse
+}
+
+/**
+ * Check the HMAC-SHA256 signature over "timestamp\nmethod\npath\nbody".
+ * Returns an error message, or null when the request is acceptable.
+ */
+async function verifySignature(request: Request, path: string, body: string, env: Env): Promise<string | null> {
+  if (!env.REQUEST_SIGNING_SECRET) return null
+
+  const timestamp = request.headers.get(TIMESTAMP_HEADER)
+  const signature = request.headers.get(SIGNATURE_HEADER)
+  if (!timestamp || !signature) {
+    return 'Missing request signature'
   }
 
+  const age = Math.abs(Date.now() - Number(timestamp))
+  if (!Number.isFinite(age) || age > SIGNATURE_MAX_AGE) {
+    return 'Request signature expired'
+  }
+
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(env.REQUEST_SIGNING_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  )
+  // crypto.subtle.verify compares in constant time
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    key,
+    hexToBytes(signature),
+    encoder.encode(`${timestamp}\n${request.method}\n${path}\n${body}`)
+  )
+  return valid ? null : 'Invalid request signature'
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  if (!/^(?:[0-9a-f]{2})+$/i.test(hex)) return new Uint8Array()
+  return new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)))
+}
+
+/**
+ * Count a request against each key's window.
+ * Returns seconds until the client may retry, or null when under the limit.
+ */
+function checkRateLimit(keys: string[], env: Env, cost = 1): number | null {
+  const limit = Number(env.RATE_LIMIT_REQUESTS) || DEFAULT_RATE_LIMIT_REQUESTS
+  const windowMs = (Number(env.RATE_LIMIT_WINDOW_SECONDS) || DEFAULT_RATE_LIMIT_WINDOW_SECONDS) * 1000
+  const now = Date.now()
+
+  if (rateLimits.size > RATE_LIMIT_MAX_ENTRIES) {
+    rateLimits.forEach((window, key) => {
+      if (window.resetAt <= now) rateLimits.delete(key)
+    })
+  }
+
+  let retryAfter: number | null = null
+  for (const key of keys) {
+    let window = rateLimits.get(key)
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs }
+      rateLimits.set(key, window)
+    }
+
+    window.count += cost
+    if (window.count > limit) {
+      retryAfter = Math.max(retryAfter ?? 0, Math.ceil((window.resetAt - now) / 1000))
+    }
+  }
+  return retryAfter
+}
+
+function hasServerCredentials(env: Env): boolean {
+  return !!(env.BNET_CLIENT_ID && env.BNET_CLIENT_SECRET)
+}
+
+function requestOAuthToken(clientId: string, clientSecret: string): Promise<Response> {
   const tokenUrl = 'https://oauth.battle.net/token'
-  const credentials = btoa(`${body.clientId}:${body.clientSecret}`)
+  const credentials = btoa(`${clientId}:${clientSecret}`)
 
-  const response = await fetch(tokenUrl, {
+  return fetch(tokenUrl, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -96,7 +415,19 @@ async function handleTokenRequest(request: Request): Promise<Response> {
     },
     body: 'grant_type=client_credentials'
   })
+}
+
+async function handleTokenRequest(body: TokenRequest, env: Env): Promise<Response> {
+  // Tokens for the worker's own credentials never leave the worker
+  if (hasServerCredentials(env)) {
+    return jsonResponse({ error: 'This proxy holds its own Battle.net credentials; call /api/proxy without a token' }, 403)
+  }
+
+  if (!body.clientId || !body.clientSecret) {
+    return jsonResponse({ error: 'Missing clientId or clientSecret' }, 400)
+  }
 
+  const response = await requestOAuthToken(body.clientId, body.clientSecret)
   const data = await response.json()
 
   if (!response.ok) {
@@ -112,10 +443,103 @@ async function handleTokenRequest(request: Request): Promise<Response> {
   return jsonResponse(data)
 }
 
-async function handleApiProxy(request: Request): Promise<Response> {
-  const body: ApiProxyRequest = await request.json()
+/**
+ * Whether Battle.net accepts a client-supplied access token. Confirmed tokens are
+ * remembered until they expire, so only a client's first cached read costs a check.
+ */
+async function isValidClientToken(token: string): Promise<boolean> {
+  const now = Date.now()
+  const expiresAt = validatedTokens.get(token)
+  if (expiresAt !== undefined && expiresAt > now) return true
+  validatedTokens.delete(token)
+
+  if (validatedTokens.size > RATE_LIMIT_MAX_ENTRIES) {
+    validatedTokens.forEach((expiry, key) => {
+      if (expiry <= now) validatedTokens.delete(key)
+    })
+  }
+
+  const response = await fetch('https://oauth.battle.net/check_token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: `token=${encodeURIComponent(token)}`
+  })
+  if (!response.ok) return false
+
+  const data: CheckTokenResponse = await response.json()
+  if (!data.exp || data.exp * 1000 <= now) return false
+
+  validatedTokens.set(token, data.exp * 1000)
+  return true
+}
+
+/**
+ * Get the server-held access token, fetching a new one when it nears expiry.
+ * Concurrent requests share a single token fetch.
+ */
+async function getServerToken(env: Env): Promise<string> {
+  if (cachedToken && Date.now() < cachedToken.expiresAt - TOKEN_REFRESH_BUFFER) {
+    return cachedToken.token
+  }
+
+  if (!pendingToken) {
+    pendingToken = (async () => {
+      const response = await requestOAuthToken(env.BNET_CLIENT_ID!, env.BNET_CLIENT_SECRET!)
+      if (!response.ok) {
+        throw new Error(`Server credentials were rejected by Battle.net (status ${response.status})`)
+      }
+      const data: OAuthTokenResponse = await response.json()
+      cachedToken = {
+        token: data.access_token,
+        expiresAt: Date.now() + data.expires_in * 1000
+      }
+      return data.access_token
+    })().finally(() => {
+      pendingToken = null
+    })
+  }
+
+  return pendingToken
+}
 
-  if (!body.token || !body.region || !body.endpoint) {
+function cacheKindFor(endpoint: string): CacheKind {
+  if (endpoint.startsWith('/data/d3/')) return 'data'
+  if (endpoint.includes('/hero/')) return 'hero'
+  return 'profile'
+}
+
+function cacheTtl(kind: CacheKind, env: Env): number {
+  const configured = {
+    profile: env.CACHE_TTL_PROFILE,
+    hero: env.CACHE_TTL_HERO,
+    data: env.CACHE_TTL_DATA
+  }[kind]
+  const ttl = configured === undefined || configured === '' ? NaN : Number(configured)
+  return Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_CACHE_TTLS[kind]
+}
+
+/**
+ * Stamp the cache contract on a Battle.net response: X-Cache, Cache-Control with the
+ * remaining freshness, and Age for cache hits
+ */
+function withCacheHeaders(response: Response, status: CacheStatus, ttl: number): Response {
+  const result = new Response(response.body, response)
+  const cachedAt = Number(response.headers.get(CACHED_AT_HEADER)) || Date.now()
+  const age = Math.max(0, Math.floor((Date.now() - cachedAt) / 1000))
+
+  result.headers.delete(CACHED_AT_HEADER)
+  result.headers.set('X-Cache', status)
+  result.headers.set('Cache-Control', ttl > 0 ? `private, max-age=${Math.max(0, ttl - age)}` : 'no-store')
+  if (status === 'HIT') {
+    result.headers.set('Age', String(age))
+  }
+  return result
+}
+
+async function handleApiProxy(body: ApiProxyRequest, env: Env, ctx: ExecutionContext): Promise<Response> {
+  const serverCredentials = hasServerCredentials(env)
+
+  if ((!serverCredentials && !body.token) || !body.region || !body.endpoint) {
     return jsonResponse({ error: 'Missing token, region, or endpoint' }, 400)
   }
 
@@ -126,6 +550,12 @@ async function handleApiProxy(request: Request): Promise<Response> {
 
   // Ensure endpoint starts with /
   const endpoint = body.endpoint.startsWith('/') ? body.endpoint : `/${body.endpoint}`
+
+  const isAllowed = ALLOWED_API_PREFIXES.some(prefix => endpoint.startsWith(prefix))
+  if (!isAllowed || endpoint.includes('..')) {
+    return jsonResponse({ error: 'Invalid endpoint path' }, 400)
+  }
+
   const apiUrl = `${baseUrl}${endpoint}`
 
   // Parse existing query params and add locale if not present
@@ -134,35 +564,114 @@ async function handleApiProxy(request: Request): Promise<Response> {
     urlObj.searchParams.set('locale', 'en_US')
   }
 
-  const response = await fetch(urlObj.toString(), {
+  // Profiles are public, so one cached copy per region + endpoint serves every client
+  const ttl = cacheTtl(cacheKindFor(endpoint), env)
+  const cache = ttl > 0 && typeof caches !== 'undefined' ? caches.default : null
+  const cacheKey = new Request(`${CACHE_KEY_ORIGIN}/${body.region.toLowerCase()}${urlObj.pathname}${urlObj.search}`)
+
+  if (cache && !body.forceRefresh) {
+    // Blizzard never sees requests served from cache, so vouch for client tokens here
+    if (!serverCredentials && !(await isValidClientToken(body.token!))) {
+      return jsonResponse({ error: 'Invalid or expired token' }, 401)
+    }
+
+    const cached = await cache.match(cacheKey)
+    if (cached) {
+      return withCacheHeaders(cached, 'HIT', ttl)
+    }
+  }
+
+  const fetchApi = (token: string) => fetch(urlObj.toString(), {
     headers: {
-      Authorization: `Bearer ${body.token}`
+      Authorization: `Bearer ${token}`
     }
   })
 
+  let response = await fetchApi(serverCredentials ? await getServerToken(env) : body.token!)
+
+  // A server-held token can be revoked before it expires; retry once with a fresh one
+  if (serverCredentials && response.status === 401) {
+    cachedToken = null
+    response = await fetchApi(await getServerToken(env))
+  }
+
   const data = await response.json()
 
   if (!response.ok) {
+    // Pass Battle.net's own backoff hint through to the client
+    const retryAfter = response.headers.get('Retry-After')
     return jsonResponse(
       {
         error: 'API request failed',
         status: response.status,
         details: data
       },
-      response.status
+      response.status,
+      retryAfter ? { 'Retry-After': retryAfter } : {}
     )
   }
 
-  return jsonResponse(data)
+  if (!cache) {
+    return withCacheHeaders(jsonResponse(data), 'BYPASS', ttl)
+  }
+
+  const fresh = jsonResponse(data, 200, {
+    'Cache-Control': `public, max-age=${ttl}`,
+    [CACHED_AT_HEADER]: String(Date.now())
+  })
+  ctx.waitUntil(cache.put(cacheKey, fresh.clone()))
+  return withCacheHeaders(fresh, body.forceRefresh ? 'BYPASS' : 'MISS', ttl)
+}
+
+/**
+ * Fan a list of Battle.net endpoints out through the API proxy with bounded concurrency.
+ * Each endpoint gets its own status, so one missing hero doesn't fail the batch.
+ */
+async function handleBatchProxy(body: BatchProxyRequest, env: Env, ctx: ExecutionContext): Promise<Response> {
+  const { endpoints, ...shared } = body
+
+  if (endpoints.length === 0) {
+    return jsonResponse({ error: 'Missing endpoints' }, 400)
+  }
+  if (endpoints.length > MAX_BATCH_ENDPOINTS) {
+    return jsonResponse({ error: `Too many endpoints (max ${MAX_BATCH_ENDPOINTS})` }, 400)
+  }
+
+  const results: BatchResult[] = new Array(endpoints.length)
+  let next = 0
+
+  const runNext = async (): Promise<void> => {
+    while (next < endpoints.length) {
+      const index = next++
+      const endpoint = endpoints[index]
+      try {
+        const response = await handleApiProxy({ ...shared, endpoint }, env, ctx)
+        results[index] = {
+          endpoint,
+          status: response.status,
+          body: await response.json(),
+          cache: response.headers.get('X-Cache') ?? undefined,
+          retryAfter: response.headers.get('Retry-After') ?? undefined
+        }
+      } catch (error) {
+        results[index] = {
+          endpoint,
+          status: 502,
+          body: { error: error instanceof Error ? error.message : 'Upstream request failed' }
+        }
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, endpoints.length) }, runNext))
+  return jsonResponse({ results })
 }
 
 /**
  * Proxy requests to Maxroll.gg to avoid CORS issues
  * Returns HTML content that can be parsed on the client
  */
-async function handleMaxrollProxy(request: Request): Promise<Response> {
-  const body: MaxrollProxyRequest = await request.json()
-
+async function handleMaxrollProxy(body: MaxrollProxyRequest): Promise<Response> {
   if (!body.endpoint) {
     return jsonResponse({ error: 'Missing endpoint' }, 400)
   }
@@ -204,21 +713,12 @@ async function handleMaxrollProxy(request: Request): Promise<Response> {
     const html = await response.text()
 
     // Return HTML content for client-side parsing
-    return new Response(
-      JSON.stringify({
-        success: true,
-        html,
-        url: maxrollUrl,
-        fetchedAt: new Date().toISOString()
-      }),
-      {
-        status: 200,
-        headers: {
-          'Content-Type': 'application/json',
-          ...CORS_HEADERS
-        }
-      }
-    )
+    return jsonResponse({
+      success: true,
+      html,
+      url: maxrollUrl,
+      fetchedAt: new Date().toISOString()
+    })
   } catch (error) {
     return jsonResponse(
       {
@@ -230,12 +730,12 @@ async function handleMaxrollProxy(request: Request): Promise<Response> {
   }
 }
 
-function jsonResponse(data: unknown, status = 200): Response {
+function jsonResponse(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
   return new Response(JSON.stringify(data), {
     status,
     headers: {
       'Content-Type': 'application/json',
-      ...CORS_HEADERS
+      ...headers
     }
   })
 }